@@ -4,15 +4,28 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect, memo } from 'react';
-import { analyzeObject, getGenericVoxel, evolveVoxelScene } from './services/gemini';
+import React, { useState, useRef, useEffect, useMemo, memo } from 'react';
+import { analyzeObject, evolveVoxelScene, VOXEL_RENDERER_VERSION } from './services/gemini';
+import { getCachedVoxel, getPetVoxel } from './services/voxel';
 import { makeBackgroundTransparent } from './utils/html';
-import { ITEMS_DB, getRandomEnemy, getLootDrop, GameItem, ELEMENT_THEMES, MonsterStats, LOCATIONS_DB, LocationNode, STARTER_PACKS, determineEvolutionPath, EVO_THRESHOLDS, getProceduralMonsterArt, getRandomEventText, getRandomSpecialEvent, getActionFromText, EquipmentSlot, getPetSpeech, EMOTE_ICONS } from './services/gameData';
+import { resolveTeamBattle } from './services/battle';
+import { applyItemEffects, getItemDescription } from './services/items';
+import { isRecipeUnlocked, getUnlockHint, getAvailableCounts, canCraft, craftRecipe, takeItems } from './services/crafting';
+import { GearInstance, MAX_ENHANCE, ENHANCE_SAFE_LEVEL, addToBag, enhanceGear, formatGearBonus, getEnhanceCost, getEquipmentBonus, getEquippedGear, getGearBonus, getGearName } from './services/gear';
+import { LOOT_TABLES, RARITY_BADGES, getLootOdds, getMysteryBoxTable, getZoneLootTable, rollLootTable } from './services/loot';
+import { NEED_WARNINGS, NEEDS_TICK_MS, FATIGUE_PER_BATTLE, FATIGUE_PER_EVENT, HAPPINESS_PER_POKE, HAPPINESS_PER_MEAL, getNeedWarnings, getNeedsStatMult, getExploreBlock, tickNeeds, adjustNeeds } from './services/needs';
+import { SaveData, SlotSummary, MAX_SAVE_SLOTS, loadSave, writeSave, hydrateAssets, createSaveFile, readSaveFile, mergeSaves, listSlots, getActiveSlotId, startNewSlot, duplicateSlot, deleteSlot } from './services/save';
+import { PvpPet, PvpTeam, PvpRecord, MAX_PVP_TEAM, PVP_LOCATION_ID, encodePvpTeam, parsePvpTeam, getPvpGear, getRivalGear } from './services/pvp';
+import { StatusEffect, StatusId, STATUS_DB, applyStatus, tickStatuses } from './services/status';
+import { Buff, BuffId, BUFF_DB, applyBuff, getActiveBuffs, getBuffBonus, tickBuffBattles, formatBuffLeft } from './services/buffs';
+import { Rng, createRng, formatSeed } from './services/rng';
+import { BattleReplay, ReplayCombatant, BATTLE_LOG_INTERVAL, createReplay, pushReplay, getBattleIntro, getReplayVoxel } from './services/replay';
+import { ITEMS_DB, getEnemyTeam, getLootDrop, GameItem, ELEMENT_THEMES, MonsterStats, LOCATIONS_DB, LocationNode, STARTER_PACKS, determineEvolutionPath, getEvolutionGrowth, EVO_THRESHOLDS, getProceduralMonsterArt, getRandomEventText, getRandomSpecialEvent, getActionFromText, EquipmentSlot, getPetSpeech, EMOTE_ICONS, getMovesForElement, AITactic, TACTIC_INFO, getCaptureChance, generateCaptureProfile, getBossEnemy, getBossCooldownLeft, BossRecord, RECIPES_DB, Recipe, OfflineReport, OFFLINE_CAP_SECONDS, simulateOffline } from './services/gameData';
 
 // --- TYPES ---
-type GameState = 'SPLASH' | 'ONBOARDING' | 'STARTER_SELECT' | 'NEXUS' | 'SCAN' | 'COLLECTION' | 'SHOP' | 'ITEMS' | 'EXPLORE';
+type GameState = 'SPLASH' | 'ONBOARDING' | 'STARTER_SELECT' | 'NEXUS' | 'SCAN' | 'COLLECTION' | 'SHOP' | 'ITEMS' | 'EXPLORE' | 'HISTORY' | 'PVP';
 
-const SAVE_VERSION = 'v13.9_VECTOR_CHIP_FIX'; 
+const MAX_PARTY = 3;
 
 interface UserProfile {
   name: string;
@@ -22,11 +35,18 @@ interface UserProfile {
   currentLocation: string; 
   joinedAt: number;
   inventory: string[]; 
+  gear?: GearInstance[]; // Owned gear copies; gear ids never sit in `inventory`
   currentRank: string;
+  party?: string[]; // Pet ids in battle order; the first one is the active pet
+  bosses?: Record<string, BossRecord>; // Keyed by location id
+  pvp?: PvpRecord;
+  lastSeen?: number; // Heartbeat timestamp used to measure time away
+  pendingOffline?: OfflineReport; // Shown but not yet claimed, so a reload doesn't lose it
 }
 
 interface Pixupet extends MonsterStats {
-  voxelCode: string;
+  rendererVersion?: number; // Voxel renderer the scene was last built with; scenes themselves are never saved
+  voxelName?: string; // Name the scene is generated from (kept through evolution renames)
   imageSource?: string;
   cardArtUrl?: string;
   currentHp?: number; 
@@ -37,6 +57,16 @@ interface Pixupet extends MonsterStats {
   hunger: number; 
   fatigue: number;
   happiness?: number; 
+  statuses?: StatusEffect[];
+  buffs?: Buff[];
+}
+
+type EvolutionPhase = 'CHARGE' | 'REVEAL';
+
+interface EvolutionScene {
+  before: Pixupet;
+  after: Pixupet;
+  phase: EvolutionPhase | 'DONE';
 }
 
 interface FloatingText { id: number; text: string; x: number; y: number; color: string; }
@@ -229,6 +259,17 @@ const ItemIcon: React.FC<{ item: GameItem }> = ({ item }) => {
         );
     }
     
+    // CAPTURE CAPSULE
+    if (id.includes('capsule')) {
+        return (
+            <svg viewBox="0 0 24 24" className="w-full h-full drop-shadow-md">
+                <circle cx="12" cy="12" r="9" fill="white" stroke={strokeColor} strokeWidth="2"/>
+                <path d="M3 12a9 9 0 0 1 18 0z" fill={baseColor} stroke={strokeColor} strokeWidth="2"/>
+                <circle cx="12" cy="12" r="3" fill="white" stroke={strokeColor} strokeWidth="2"/>
+            </svg>
+        );
+    }
+
     // MYSTERY BOX / DEFAULT
     return (
         <svg viewBox="0 0 24 24" className="w-full h-full drop-shadow-md">
@@ -240,17 +281,24 @@ const ItemIcon: React.FC<{ item: GameItem }> = ({ item }) => {
 
 // --- COMPONENTS ---
 
-const VoxelViewer = memo(({ code, mode = 'HABITAT', action = 'WALK', theme = 'Grass', equipment, onInteract, onStateChange, preEvent, eventActive }: { code: string, mode?: string, action?: string, theme?: string, equipment?: any, onInteract?: ()=>void, onStateChange?: (s:string)=>void, preEvent?: string, eventActive?: boolean }) => {
+const VoxelViewer = memo(({ code, mode = 'HABITAT', action = 'WALK', theme = 'Grass', equipment, onInteract, onStateChange, preEvent, eventActive, evolution, onEvolutionDone }: { code: string, mode?: string, action?: string, theme?: string, equipment?: any, onInteract?: ()=>void, onStateChange?: (s:string)=>void, preEvent?: string, eventActive?: boolean, evolution?: EvolutionPhase | 'SKIP', onEvolutionDone?: (phase: EvolutionPhase)=>void }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
   useEffect(() => {
     const handler = (e: MessageEvent) => {
         if (e.data.type === 'PET_CLICKED_CONFIRM' && onInteract) onInteract(); // Listen for confirmed clicks
         if ((e.data.type === 'ENTER_IDLE' || e.data.type === 'ENTER_WALK') && onStateChange) onStateChange(e.data.type);
+        if (e.data.type === 'EVOLVE_DONE' && onEvolutionDone) onEvolutionDone(e.data.value);
     };
     window.addEventListener('message', handler);
     return () => window.removeEventListener('message', handler);
-  }, [onInteract, onStateChange]);
+  }, [onInteract, onStateChange, onEvolutionDone]);
+
+  // Each evolution phase may come with a new scene, so it is also re-sent on iframe load
+  const sendEvolution = () => {
+      if (evolution) iframeRef.current?.contentWindow?.postMessage({ type: 'EVOLVE', value: evolution }, '*');
+  };
+  useEffect(sendEvolution, [evolution]);
 
   useEffect(() => {
     if (iframeRef.current && iframeRef.current.contentWindow) {
@@ -300,12 +348,21 @@ const VoxelViewer = memo(({ code, mode = 'HABITAT', action = 'WALK', theme = 'Gr
         className="w-full h-full border-0 absolute inset-0 pointer-events-auto"
         title="Voxel Viewer"
         sandbox="allow-scripts allow-same-origin"
+        onLoad={sendEvolution}
       />
       <div className="absolute inset-0 pointer-events-none" />
     </div>
   );
 });
 
+// Coarse duration for save slot summaries, e.g. "3d 4h", "2h 5m", "12m".
+const formatPlayTime = (ms: number): string => {
+    const mins = Math.max(0, Math.floor(ms / 60000));
+    if (mins >= 1440) return `${Math.floor(mins / 1440)}d ${Math.floor(mins % 1440 / 60)}h`;
+    if (mins >= 60) return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+    return `${mins}m`;
+};
+
 const PixuCard: React.FC<{ pet: Pixupet, onClick?: () => void }> = ({ pet, onClick }) => {
     const theme = ELEMENT_THEMES[pet.element] || ELEMENT_THEMES.Metal;
     
@@ -361,6 +418,110 @@ const PixuCard: React.FC<{ pet: Pixupet, onClick?: () => void }> = ({ pet, onCli
     );
 };
 
+interface BattleScreenProps {
+    title?: string;
+    seed: number;
+    playerCode: string;
+    playerEquipment?: any;
+    enemyCode: string;
+    logs: string[];
+    finished: boolean;
+    win: boolean;
+    rewards?: any;
+    playerLabel?: string;
+    enemyLabel?: string;
+    onClose?: () => void;
+    children?: React.ReactNode; // Extra actions shown on the result overlay
+}
+
+const BattleScreen: React.FC<BattleScreenProps> = ({ title = 'WILD ENCOUNTER', seed, playerCode, playerEquipment, enemyCode, logs, finished, win, rewards, playerLabel = 'YOU', enemyLabel = 'ENEMY', onClose, children }) => {
+    const logScrollRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (logScrollRef.current) logScrollRef.current.scrollIntoView({ behavior: 'smooth' });
+    }, [logs]);
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4 backdrop-blur-sm">
+            <div className="w-full max-w-lg bg-white border-4 border-black rounded-2xl overflow-hidden shadow-[10px_10px_0_#000] flex flex-col h-[75vh] pop-in">
+                <div className="bg-red-500 text-white p-3 text-center font-black text-2xl tracking-widest border-b-4 border-black flex justify-center items-center gap-2 italic transform skew-x-[-5deg] relative">
+                    <IconSkull /> {title}
+                    <span className="text-[9px] font-mono not-italic bg-black/40 px-1 rounded">#{formatSeed(seed)}</span>
+                    {onClose && <button onClick={onClose} className="absolute right-3 text-2xl font-black not-italic hover:scale-110">✕</button>}
+                </div>
+                <div className="flex-1 bg-gradient-to-b from-slate-800 to-black relative overflow-hidden flex border-b-4 border-black">
+                     <div className="w-1/2 h-full relative border-r-4 border-black">
+                         <VoxelViewer code={playerCode} mode="BATTLE_PLAYER" equipment={playerEquipment} />
+                         <div className="absolute bottom-2 left-2 bg-blue-600 text-white text-[9px] font-bold px-2 py-1 border-2 border-black rounded transform -skew-x-12 shadow-md">{playerLabel}</div>
+                     </div>
+                     <div className="w-1/2 h-full relative">
+                         <VoxelViewer code={enemyCode} mode="BATTLE_ENEMY" />
+                         <div className="absolute top-2 right-2 bg-red-600 text-white text-[9px] font-bold px-2 py-1 border-2 border-black rounded transform -skew-x-12 shadow-md">{enemyLabel}</div>
+                     </div>
+                     
+                     {finished && (
+                         <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-20 backdrop-blur-sm animate-in fade-in zoom-in">
+                             {rewards && win && (
+                                 <div className="flex gap-4 mb-6">
+                                     {rewards.exp && <div className="bg-yellow-400 text-black font-black p-3 rounded-lg border-2 border-black shadow-[4px_4px_0_black] pop-in" style={{animationDelay: '0.1s'}}>+{rewards.exp} XP</div>}
+                                     {rewards.coins && <div className="bg-yellow-200 text-black font-black p-3 rounded-lg border-2 border-black shadow-[4px_4px_0_black] pop-in" style={{animationDelay: '0.2s'}}>+{rewards.coins} G</div>}
+                                     {rewards.items && rewards.items.map((item: string, idx: number) => (
+                                         <div key={idx} className="bg-green-400 text-black font-black p-3 rounded-lg border-2 border-black shadow-[4px_4px_0_black] pop-in" style={{animationDelay: '0.3s'}}>
+                                             ITEM!
+                                         </div>
+                                     ))}
+                                 </div>
+                             )}
+                             <h1 className={`text-6xl font-black ${win ? 'text-yellow-400 stroke-black' : 'text-red-500 stroke-black'} drop-shadow-[6px_6px_0_#000] -rotate-6`} style={{WebkitTextStroke: '2px black'}}>
+                                 {win ? 'VICTORY!' : 'DEFEATED'}
+                             </h1>
+                             {children}
+                         </div>
+                     )}
+                </div>
+                <div className="h-[30%] bg-gray-100 p-4 font-mono text-xs overflow-y-auto flex flex-col gap-2">
+                    {logs.map((log:string, i:number) => (
+                        <div key={i} className="text-black font-bold border-l-4 border-black pl-2 bg-white p-1 shadow-sm">
+                            {log}
+                        </div>
+                    ))}
+                    <div ref={logScrollRef} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Plays a recorded battle back with the same pacing as the live fight.
+const ReplayPlayer: React.FC<{ replay: BattleReplay, onClose: () => void }> = ({ replay, onClose }) => {
+    const [shown, setShown] = useState(0);
+    const playerCodes = useMemo(() => replay.players.map(getReplayVoxel), [replay]);
+    const enemyCodes = useMemo(() => replay.enemies.map(getReplayVoxel), [replay]);
+    const [playerIdx, enemyIdx] = shown > 0 ? replay.activeAt[shown - 1] : [0, 0];
+
+    useEffect(() => {
+        setShown(0);
+        const interval = setInterval(() => setShown(n => Math.min(n + 1, replay.logs.length)), BATTLE_LOG_INTERVAL);
+        return () => clearInterval(interval);
+    }, [replay]);
+
+    return (
+        <BattleScreen
+            title="REPLAY"
+            seed={replay.seed}
+            playerCode={playerCodes[playerIdx]}
+            playerEquipment={replay.players[playerIdx].equipment}
+            enemyCode={enemyCodes[enemyIdx]}
+            playerLabel={replay.players.length > 1 ? `YOU ${playerIdx + 1}/${replay.players.length}` : undefined}
+            enemyLabel={replay.enemies.length > 1 ? `ENEMY ${enemyIdx + 1}/${replay.enemies.length}` : undefined}
+            logs={[...getBattleIntro(replay.enemies), ...replay.logs.slice(0, shown)]}
+            finished={shown >= replay.logs.length}
+            win={replay.win}
+            onClose={onClose}
+        />
+    );
+};
+
 // --- MAIN APP ---
 
 export default function App() {
@@ -369,26 +530,41 @@ export default function App() {
       name: 'Tamer', level: 1, exp: 0, coins: 100, currentLocation: 'loc_starter', joinedAt: Date.now(), inventory: [], currentRank: 'Noob' 
   });
   const [inventory, setInventory] = useState<Pixupet[]>([]);
+  const [saveReady, setSaveReady] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<SaveData | null>(null);
+  const [slots, setSlots] = useState<SlotSummary[]>([]);
+  const [offlineReport, setOfflineReport] = useState<OfflineReport | null>(null);
   const [activePetIndex, setActivePetIndex] = useState<number>(0);
   
   // Modals & Overlays
   const [showScan, setShowScan] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [activeBattle, setActiveBattle] = useState<any>(null);
+  const [pvpRival, setPvpRival] = useState<PvpTeam | null>(null);
+  const [pvpError, setPvpError] = useState<string | null>(null);
+  const [pvpInput, setPvpInput] = useState('');
   const [showLevelUp, setShowLevelUp] = useState<any>(null);
   const [notifs, setNotifs] = useState<FloatingText[]>([]);
   const [scanPreview, setScanPreview] = useState<string | null>(null);
   const [activeEvent, setActiveEvent] = useState<any>(null);
   const [statusText, setStatusText] = useState("System Online");
   const [selectedCard, setSelectedCard] = useState<Pixupet | null>(null);
+  const [evolutionScene, setEvolutionScene] = useState<EvolutionScene | null>(null);
   const [showGearSelect, setShowGearSelect] = useState<{slot: EquipmentSlot} | null>(null);
   const [confirmItem, setConfirmItem] = useState<GameItem | null>(null);
   const [preEventEmote, setPreEventEmote] = useState<string | null>(null);
+  const [replays, setReplays] = useState<BattleReplay[]>([]);
+  const [replayView, setReplayView] = useState<BattleReplay | null>(null);
 
   // Menus
   const [statsOpen, setStatsOpen] = useState(false);
   const [shopOpen, setShopOpen] = useState(false);
+  const [oddsOpen, setOddsOpen] = useState(false);
+  const [lootReveal, setLootReveal] = useState<{ boxId: string; itemId: string; opened: boolean } | null>(null);
   const [itemsOpen, setItemsOpen] = useState(false);
+  const [forgeOpen, setForgeOpen] = useState(false);
+  const [enhanceUid, setEnhanceUid] = useState<string | null>(null);
   const [exploreOpen, setExploreOpen] = useState(false);
 
   // Interactive State
@@ -405,28 +581,135 @@ export default function App() {
   const logScrollRef = useRef<HTMLDivElement>(null);
 
   // --- LOAD / SAVE ---
-  useEffect(() => {
-      const saved = localStorage.getItem(`pixupet_save_${SAVE_VERSION}`);
-      if (saved) {
-          const data = JSON.parse(saved);
-          setUser(data.user);
-          setInventory(data.inventory);
+  // Opens a save slot (the last active one by default). Autosave is paused until the slot's data is in state.
+  const openSlot = async (slotId?: string) => {
+      setSaveReady(false);
+      try {
+          const data = loadSave(slotId);
+          const hydrated = await hydrateAssets(data?.inventory || []);
+          // Scenes are rebuilt from traits, so renderer upgrades reach old pets for free.
+          const upgraded = hydrated.filter(p => p.rendererVersion !== VOXEL_RENDERER_VERSION).length;
+          const pets = hydrated.map(p => ({ ...p, rendererVersion: VOXEL_RENDERER_VERSION }));
+          if (upgraded > 0 && data) showFloatingText(`✨ ${upgraded} PET${upgraded > 1 ? 'S' : ''} GOT A VISUAL UPGRADE`, 'text-cyan-300');
+          // An unclaimed report from the last session is offered again instead of simulating a new one.
+          const report = data?.user.pendingOffline || (data?.user.lastSeen && pets[0]
+              ? simulateOffline((Date.now() - data.user.lastSeen) / 1000, data.user.currentLocation, pets[0].level)
+              : null);
+          setOfflineReport(report);
+          if (data) {
+              setUser({ ...data.user, lastSeen: Date.now(), pendingOffline: report || undefined });
+              setInventory(pets);
+              setReplays(data.replays);
+              // The saved party lead is the active pet, as in updateParty.
+              setActivePetIndex(Math.max(0, pets.findIndex(p => p.id === data.user.party?.[0])));
+          }
+          setSaveError(null);
+          setSaveReady(true);
+      } catch (e: any) {
+          // Autosave stays off so the broken save isn't overwritten by an empty game.
+          setSaveError(e.message);
       }
-  }, []);
+      setSlots(listSlots());
+  };
+
+  useEffect(() => { openSlot(); }, []);
 
   useEffect(() => {
-      if (user.level > 0) {
-        localStorage.setItem(`pixupet_save_${SAVE_VERSION}`, JSON.stringify({ user, inventory }));
+      if (gameState === 'SPLASH') setSlots(listSlots());
+  }, [gameState]);
+
+  // Heartbeat so a closed tab leaves an accurate last-seen time behind.
+  useEffect(() => {
+      if (!saveReady) return;
+      const beat = () => setUser(u => ({ ...u, lastSeen: Date.now() }));
+      const interval = setInterval(beat, 60000);
+      const onHide = () => { if (document.visibilityState === 'hidden') beat(); };
+      document.addEventListener('visibilitychange', onHide);
+      return () => { clearInterval(interval); document.removeEventListener('visibilitychange', onHide); };
+  }, [saveReady]);
+
+  useEffect(() => {
+      if (saveReady && user.level > 0) {
+        writeSave({ user, inventory, replays });
       }
-  }, [user, inventory]);
+  }, [saveReady, user, inventory, replays]);
 
+  // Always starts a fresh slot; existing slots are only removed through the slot list.
   const handleNewGame = () => {
-      localStorage.removeItem(`pixupet_save_${SAVE_VERSION}`);
+      try {
+          startNewSlot();
+      } catch (e: any) {
+          alert(e.message);
+          return;
+      }
+      setSaveError(null);
+      setSaveReady(true);
       setUser({ name: 'Tamer', level: 1, exp: 0, coins: 100, currentLocation: 'loc_starter', joinedAt: Date.now(), inventory: [], currentRank: 'Noob' });
       setInventory([]);
+      setReplays([]);
+      setActivePetIndex(0);
       setGameState('ONBOARDING');
   };
 
+  const handleDuplicateSlot = async (id: string) => {
+      try {
+          await duplicateSlot(id);
+      } catch (e: any) {
+          alert(e.message);
+      }
+      setSlots(listSlots());
+  };
+
+  const handleDeleteSlot = async (slot: SlotSummary) => {
+      if (!confirm(`Delete ${slot.name}'s save (LV.${slot.level}, ${slot.pets} pets)? This cannot be undone.`)) return;
+      const wasActive = slot.id === getActiveSlotId();
+      if (wasActive) setSaveReady(false);
+      await deleteSlot(slot.id);
+      if (wasActive) {
+          setUser({ name: 'Tamer', level: 1, exp: 0, coins: 100, currentLocation: 'loc_starter', joinedAt: Date.now(), inventory: [], currentRank: 'Noob' });
+          setInventory([]);
+          setReplays([]);
+          setActivePetIndex(0);
+          setOfflineReport(null);
+          setSaveError(null);
+          // Nothing is open any more; the picker offers LOAD or NEW GAME, and either re-enables autosave.
+          setGameState('SPLASH');
+      }
+      setSlots(listSlots());
+  };
+
+  const handleExportSave = () => {
+      const blob = new Blob([createSaveFile({ user, inventory, replays })], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url; a.download = `pixupet_${user.name || 'save'}_${new Date().toISOString().slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File) => {
+      try {
+          setPendingImport(readSaveFile(await file.text()));
+      } catch (e: any) {
+          alert(e.message);
+      }
+  };
+
+  const applyImport = (mode: 'MERGE' | 'REPLACE') => {
+      if (!pendingImport) return;
+      if (!getActiveSlotId()) {
+          try { startNewSlot(); } catch (e: any) { alert(e.message); return; }
+      }
+      const data = mode === 'MERGE' ? mergeSaves({ user, inventory, replays }, pendingImport) : pendingImport;
+      setUser(data.user);
+      setInventory(data.inventory);
+      setReplays(data.replays);
+      if (mode === 'REPLACE') setActivePetIndex(Math.max(0, data.inventory.findIndex(p => p.id === data.user.party?.[0])));
+      setPendingImport(null);
+      setSaveError(null);
+      setSaveReady(true);
+  };
+
   // --- MAP AUTO-FOCUS ---
   useEffect(() => {
       if (exploreOpen && user.currentLocation) {
@@ -441,20 +724,36 @@ export default function App() {
   }, [exploreOpen, user.currentLocation]);
 
   // --- GAME LOOP ---
+  // The tick reads the latest render through a ref, so pet updates (needs, pokes, statuses) don't restart the timer.
+  const exploreTickRef = useRef<() => void>(() => {});
+  exploreTickRef.current = () => {
+      if (Math.random() > 0.7 && !isPetIdle) { 
+          const txt = getRandomEventText(user.currentLocation);
+          setStatusText(txt);
+      }
+      if (Math.random() > 0.9) { 
+         const block = activePet && getExploreBlock(activePet);
+         if (block) setStatusText(block);
+         else triggerRandomEvent();
+      }
+  };
+
   useEffect(() => {
       if (gameState !== 'NEXUS' || activeBattle || activeEvent || isAnalyzing || preEventEmote) return;
-      
-      const interval = setInterval(() => {
-          if (Math.random() > 0.7 && !isPetIdle) { 
-              const txt = getRandomEventText(user.currentLocation);
-              setStatusText(txt);
-          }
-          if (Math.random() > 0.9) { 
-             triggerRandomEvent();
-          }
-      }, 8000); 
+      const interval = setInterval(() => exploreTickRef.current(), 8000); 
       return () => clearInterval(interval);
-  }, [gameState, activeBattle, activeEvent, user.currentLocation, isAnalyzing, isPetIdle, preEventEmote]);
+  }, [gameState, activeBattle, activeEvent, user.currentLocation, isAnalyzing, preEventEmote, activePetIndex]);
+
+  // Needs drain for the whole collection whether or not a pet is out exploring.
+  useEffect(() => {
+      if (!saveReady) return;
+      // Timed buffs are pruned on the same beat
+      const interval = setInterval(() => setInventory(prev => prev.map(p => {
+          const ticked = tickNeeds(p);
+          return p.buffs?.length ? { ...ticked, buffs: getActiveBuffs(p.buffs) } : ticked;
+      })), NEEDS_TICK_MS);
+      return () => clearInterval(interval);
+  }, [saveReady]);
 
   // Speech Bubble Logic
   useEffect(() => {
@@ -477,12 +776,14 @@ export default function App() {
       if (logScrollRef.current) {
           logScrollRef.current.scrollIntoView({ behavior: 'smooth' });
       }
-  }, [activeBattle?.logs, activeEvent?.logs]);
+  }, [activeEvent?.logs]);
 
   // --- LOGIC ---
 
   const triggerRandomEvent = async () => {
-      const rand = Math.random();
+      // One seed per event: every roll below (and the battle it may start) replays from it.
+      const rng = createRng();
+      const rand = rng.next();
       
       let type: 'BATTLE' | 'TREASURE' | 'SPECIAL' = 'SPECIAL';
       if (rand > 0.60) type = 'BATTLE';
@@ -503,29 +804,32 @@ export default function App() {
 
       // 2. TRIGGER ACTUAL EVENT
       if (type === 'BATTLE') {
-          startAutoBattle();
+          startAutoBattle(rng);
       } else if (type === 'TREASURE') {
-          const item = getLootDrop(user.currentLocation);
+          const item = getLootDrop(user.currentLocation, rng, 'STASH');
           if(item) {
             const ev: any = { 
                 type: 'TREASURE', 
+                seed: rng.seed, 
                 title: 'SECRET STASH', 
                 description: 'You found something shiny!', 
                 logs: ['Scanning area...', 'Ping detected!', `Uncovered: ${ITEMS_DB[item].name}`], 
                 resultText: 'LOOT SECURED!',
                 rewards: { items: [item] }
             };
-            startAutoEvent(ev, () => addItem(item, true));
+            startAutoEvent(ev, () => { addItem(item, true); tickPetStatuses(); exertPets([activePet.id], FATIGUE_PER_EVENT); });
           }
       } else {
-          const ev: any = getRandomSpecialEvent(user.currentLocation);
+          const ev: any = getRandomSpecialEvent(user.currentLocation, rng);
           const rewards: any = {};
           if(ev.type === 'DISCOVERY') { rewards.exp = 20; rewards.coins = 20; }
           ev.rewards = rewards;
           
           startAutoEvent(ev, () => {
              if(ev.type === 'DISCOVERY') { addExp(20, true); addCoins(20, true); }
-             if(ev.type === 'HAZARD') { damagePet(ev.effectValue); }
+             tickPetStatuses();
+             exertPets([activePet.id], FATIGUE_PER_EVENT);
+             if(ev.type === 'HAZARD') { damagePet(ev.effectValue); if (ev.statuses) afflictPet(ev.statuses); if (ev.buffs) buffPet(ev.buffs); }
           });
       }
   };
@@ -546,95 +850,288 @@ export default function App() {
       }, 1000);
   };
 
-  const startAutoBattle = () => {
-      const enemy = getRandomEnemy(user.currentLocation, activePet.level, getGenericVoxel);
-      const battleState = { enemy, logs: [`A wild ${enemy.name} appeared!`, "Combat protocols initiated!"], finished: false, win: false, rewards: {} };
+  const startAutoBattle = (rng: Rng = createRng()) => {
+      const team = getBattleTeam();
+      if (!team.length) { setStatusText("Too hurt to fight... heal me!"); return; }
+      runBattle(team, getEnemyTeam(user.currentLocation, team[0].level, getCachedVoxel, rng), rng);
+  };
+
+  const startBossBattle = (locationId: string) => {
+      const loc = LOCATIONS_DB[locationId];
+      if (!loc?.boss || activeBattle || activeEvent) return;
+      const cooldown = getBossCooldownLeft(user.bosses?.[locationId]);
+      if (cooldown > 0) { showFloatingText(`BOSS RECHARGING (${Math.ceil(cooldown / 60000)}m)`, 'text-red-500'); return; }
+      const team = getBattleTeam();
+      if (!team.length) { showFloatingText("PARTY KNOCKED OUT", 'text-red-500'); return; }
+      const boss = getBossEnemy(locationId, team[0].level, getCachedVoxel);
+      // The cooldown starts on the attempt, win or lose.
+      setUser(prev => ({ ...prev, bosses: { ...prev.bosses, [locationId]: { clears: prev.bosses?.[locationId]?.clears || 0, lastFought: Date.now() } } }));
+      setExploreOpen(false);
+      runBattle(team, [boss], createRng(), loc.boss.drop);
+  };
+
+  // Plays out a resolved fight line by line, then pays out. `bossDrop` marks a boss fight.
+  const runBattle = (team: Pixupet[], enemies: any[], rng: Rng, bossDrop?: string) => {
+      const battleState = { team, enemies, playerIdx: 0, enemyIdx: 0, seed: rng.seed, boss: !!bossDrop, logs: bossDrop ? [`${enemies[0].name} blocks the way!`, "Boss protocols initiated!"] : getBattleIntro(enemies), finished: false, win: false, rewards: {} };
       setActiveBattle(battleState);
-      const { win, combatLogs } = runBattleSimulation(activePet, enemy);
+      const players = team.map(buildPlayerCombatant);
+      const foes = enemies.map(buildEnemyCombatant);
+      const { win, combatLogs, activeAt, playerStatuses, playerHps, enemyHps, participants } = resolveTeamBattle(players, foes, rng.seed);
+      setReplays(list => pushReplay(list, createReplay(user.currentLocation, rng.seed, players, foes, combatLogs, activeAt, win)));
+      streamBattleLogs(combatLogs, activeAt, () => {
+              const rewards: any = {};
+              if (win && bossDrop) {
+                  rewards.exp = enemies[0].level * 80;
+                  rewards.coins = enemies[0].level * 60;
+                  rewards.items = [bossDrop];
+              } else if (win) {
+                  rewards.exp = enemies.reduce((sum: number, e: any) => sum + e.level * 30, 0);
+                  rewards.coins = enemies.reduce((sum: number, e: any) => sum + e.level * 20, 0);
+                  const loot = getLootDrop(user.currentLocation, rng);
+                  if (loot && rng.next() > 0.5) rewards.items = [loot];
+              }
+              
+              // Beaten bots stay on screen while the player decides whether to throw a capsule.
+              // Only the last bot standing can be caught.
+              const last = enemies.length - 1;
+              const canCapture = win && !bossDrop && user.inventory.some(id => ITEMS_DB[id]?.type === 'Capture');
+              const capture = canCapture ? { enemy: enemies[last], hpRatio: enemyHps[last] / foes[last].maxHp } : undefined;
+              setActiveBattle((prev: any) => ({ ...prev, finished: true, win, rewards, capture }));
+              
+              // HP carries over from the fight, before any level-up refills it.
+              setInventory(prev => prev.map(p => {
+                  const idx = participants.find(i => team[i].id === p.id);
+                  return idx === undefined ? p : { ...p, currentHp: playerHps[idx] };
+              }));
+              if (win) {
+                  addExp(rewards.exp, true, participants.map(idx => team[idx].id)); addCoins(rewards.coins, true);
+                  if (rewards.items) rewards.items.forEach((id: string) => addItem(id, true));
+                  if (bossDrop) recordBossClear(user.currentLocation);
+              }
+              participants.forEach(idx => setPetStatuses(team[idx].id, playerStatuses[idx]));
+              exertPets(participants.map(idx => team[idx].id), FATIGUE_PER_BATTLE);
+              tickPetBuffs(participants.map(idx => team[idx].id));
+              
+              if (!canCapture) setTimeout(() => { setActiveBattle(null); }, 3000); 
+      });
+  };
+
+  // Feeds a resolved log into the battle overlay at replay pace.
+  const streamBattleLogs = (combatLogs: string[], activeAt: [number, number][], onDone: () => void) => {
       let i = 0;
       const interval = setInterval(() => {
+          const line = combatLogs[i];
+          const [playerIdx, enemyIdx] = activeAt[i];
           setActiveBattle((prev: any) => {
               if (!prev) return null;
-              return { ...prev, logs: [...prev.logs, combatLogs[i]] };
+              return { ...prev, playerIdx, enemyIdx, logs: [...prev.logs, line] };
           });
           i++;
           if (i >= combatLogs.length) {
               clearInterval(interval);
-              const rewards: any = {};
-              if (win) {
-                  rewards.exp = enemy.level * 30;
-                  rewards.coins = enemy.level * 20;
-                  const loot = getLootDrop(user.currentLocation);
-                  if (loot && Math.random() > 0.5) rewards.items = [loot];
-              }
-              
-              setActiveBattle((prev: any) => ({ ...prev, finished: true, win, rewards }));
-              
-              if (win) {
-                  addExp(rewards.exp, true); addCoins(rewards.coins, true);
-                  if (rewards.items) rewards.items.forEach((id: string) => addItem(id, true));
-              } else { damagePet(10); }
-              
-              setTimeout(() => { setActiveBattle(null); }, 3000); 
+              onDone();
           }
-      }, 800); 
+      }, BATTLE_LOG_INTERVAL); 
   };
 
-  const runBattleSimulation = (pet: Pixupet, enemy: any) => {
-      let pHP = pet.currentHp || 100;
-      let eHP = enemy.hp;
-      const logs = [];
-      let win = false;
-      const pAtk = getStat(pet, 'atk');
-      const pDef = getStat(pet, 'def');
-      
-      for(let r=1; r<=6; r++) {
-          const dmg = Math.max(1, Math.floor(pAtk * (100/(100+enemy.def)) * (Math.random() * 0.5 + 1.0)));
-          eHP -= dmg;
-          logs.push(`> You SMAASHED for ${dmg} DMG!`);
-          if (eHP <= 0) { win = true; logs.push("> Enemy DESTROYED!"); break; }
-
-          const eDmg = Math.max(1, Math.floor(enemy.atk * (100/(100+pDef)) * (Math.random() * 0.5 + 0.8)));
-          pHP -= eDmg;
-          logs.push(`> Enemy hit you for ${eDmg} DMG!`);
-          if (pHP <= 0) { win = false; logs.push("> Critical Failure!"); break; }
+  // --- PVP ---
+  const getPvpTeam = (): PvpTeam => {
+      const pets: PvpPet[] = getBattleTeam(true).slice(0, MAX_PVP_TEAM).map(p => ({
+          name: p.name, element: p.element, level: p.level, stage: p.stage, bodyType: p.bodyType,
+          visualTraits: p.visualTraits, equipment: p.equipment, gear: getPvpGear(p, user.gear),
+          hp: p.hp, maxHp: p.maxHp, atk: p.atk, def: p.def, spd: p.spd, moves: p.moves, tactic: p.tactic
+      }));
+      return { trainer: user.name, exportedAt: Date.now(), pets };
+  };
+
+  const downloadPvpFile = () => {
+      const blob = new Blob([JSON.stringify(getPvpTeam(), null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url; a.download = `${user.name || 'pixupet'}_pvp.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  // Rival gear resolves against the copies carried in the code, never the local bag.
+  const buildPvpCombatant = (pet: PvpPet): ReplayCombatant => {
+      const { gearRefs, owned } = getRivalGear(pet);
+      const rival = { ...pet, gearRefs };
+      return {
+          name: pet.name, element: pet.element, level: pet.level,
+          stage: pet.stage, bodyType: pet.bodyType, visualTraits: pet.visualTraits, equipment: pet.equipment,
+          hp: getStat(rival, 'hp', owned), maxHp: getStat(rival, 'hp', owned),
+          atk: getStat(rival, 'atk', owned), def: getStat(rival, 'def', owned), spd: getStat(rival, 'spd', owned),
+          moves: pet.moves?.length ? pet.moves : getMovesForElement(pet.element), tactic: pet.tactic
+      };
+  };
+
+  // Both sides fight fresh: full HP, no ailments, and nothing is won or lost but the record.
+  const startPvpBattle = (rival: PvpTeam) => {
+      if (activeBattle || activeEvent) return;
+      const team = getBattleTeam(true);
+      const players = team.map(p => ({ ...buildPlayerCombatant(p), hp: getStat(p, 'hp'), statuses: [] }));
+      const foes = rival.pets.map(buildPvpCombatant);
+      const enemies = foes.map(f => ({ ...f, voxelCode: getReplayVoxel(f) }));
+      const rng = createRng();
+      // Resolved before the overlay opens so a bad rival can't leave it stuck on screen.
+      let result: ReturnType<typeof resolveTeamBattle>;
+      try {
+          result = resolveTeamBattle(players, foes, rng.seed);
+      } catch (e: any) {
+          setPvpError(`Battle failed: ${e.message}`);
+          return;
       }
-      if (pHP > 0 && eHP > 0) {
-          const pRatio = pHP / (pet.maxHp || 100);
-          const eRatio = eHP / enemy.maxHp;
-          win = pRatio >= eRatio;
-          logs.push(win ? "> Enemy retreated! YOU WIN." : "> Tactical retreat. DRAW.");
+      const { win, combatLogs, activeAt } = result;
+      setActiveBattle({ team, enemies, playerIdx: 0, enemyIdx: 0, seed: rng.seed, pvp: rival.trainer, logs: [`${rival.trainer} challenges you!`, "Arena protocols initiated!"], finished: false, win: false, rewards: {} });
+      setReplays(list => pushReplay(list, createReplay(PVP_LOCATION_ID, rng.seed, players, foes, combatLogs, activeAt, win)));
+      streamBattleLogs(combatLogs, activeAt, () => {
+          setActiveBattle((prev: any) => ({ ...prev, finished: true, win }));
+          setUser(prev => {
+              const record = prev.pvp || { wins: 0, losses: 0 };
+              return { ...prev, pvp: win ? { ...record, wins: record.wins + 1 } : { ...record, losses: record.losses + 1 } };
+          });
+          setTimeout(() => { setActiveBattle(null); }, 3000);
+      });
+  };
+
+  const handlePvpImport = (text: string) => {
+      try {
+          setPvpRival(parsePvpTeam(text));
+          setPvpError(null);
+      } catch (e: any) {
+          setPvpRival(null);
+          setPvpError(e.message);
       }
-      return { win, combatLogs: logs };
   };
 
-  const damagePet = (amt: number) => {
-      const updated = [...inventory];
-      if (updated[activePetIndex]) {
-        const p = updated[activePetIndex];
-        p.currentHp = Math.max(0, (p.currentHp || 100) - amt);
-        setInventory(updated);
-        showFloatingText(`-${amt} HP`, 'text-red-500');
+  const recordBossClear = (locationId: string) => {
+      setUser(prev => {
+          const record = prev.bosses?.[locationId] || { lastFought: Date.now(), clears: 0 };
+          return { ...prev, bosses: { ...prev.bosses, [locationId]: { ...record, clears: record.clears + 1 } } };
+      });
+  };
+
+  // Hungry, tired or sad pets fight below their sheet stats.
+  const buildPlayerCombatant = (pet: Pixupet): ReplayCombatant => {
+      const needs = getNeedsStatMult(pet);
+      const maxHp = getStat(pet, 'hp') || 100;
+      return {
+          name: pet.name, element: pet.element, level: pet.level,
+          stage: pet.stage, bodyType: pet.bodyType, visualTraits: pet.visualTraits, equipment: pet.equipment,
+          voxelName: pet.voxelName, hp: pet.currentHp ?? maxHp, maxHp,
+          atk: Math.floor(getStat(pet, 'atk') * needs), def: Math.floor(getStat(pet, 'def') * needs), spd: Math.floor(getStat(pet, 'spd') * needs),
+          moves: pet.moves?.length ? pet.moves : getMovesForElement(pet.element), tactic: pet.tactic,
+          statuses: pet.statuses
+      };
+  };
+
+  const buildEnemyCombatant = (enemy: any): ReplayCombatant => ({
+      name: enemy.name, element: enemy.element, level: enemy.level,
+      stage: enemy.stage, bodyType: enemy.bodyType, visualTraits: enemy.visualTraits,
+      hp: enemy.hp, maxHp: enemy.maxHp,
+      atk: enemy.atk, def: enemy.def, spd: enemy.spd || 0,
+      moves: enemy.moves?.length ? enemy.moves : getMovesForElement(enemy.element), tactic: enemy.tactic,
+      phases: enemy.phases
+  });
+
+  const handleCapture = (itemId: string) => {
+      if (!activeBattle?.capture) return;
+      const item = ITEMS_DB[itemId];
+      const enemy = activeBattle.capture.enemy;
+      const rng = createRng();
+      const chance = getCaptureChance(activeBattle.capture.hpRatio, enemy.rarity, item.catchRate || 1);
+      const idx = user.inventory.indexOf(itemId);
+      if (idx !== -1) removeItem(idx);
+
+      if (rng.chance(chance)) {
+          const profile = generateCaptureProfile(enemy, user.currentLocation, rng);
+          const newPet: Pixupet = {
+              id: `pet_${Date.now()}`, dateCreated: Date.now(), name: profile.name, element: enemy.element,
+              description: profile.description, visual_design: `Captured ${enemy.name}.`, bodyType: enemy.bodyType,
+              visualTraits: enemy.visualTraits, rarity: enemy.rarity, nature: profile.nature,
+              hp: profile.stats.hp, maxHp: profile.stats.hp, currentHp: profile.stats.hp,
+              atk: profile.stats.atk, def: profile.stats.def, spd: profile.stats.spd, int: 10,
+              rendererVersion: VOXEL_RENDERER_VERSION, voxelName: '', level: enemy.level, exp: 0, maxExp: Math.floor(100 * Math.pow(1.4, enemy.level - 1)),
+              hunger: 60, fatigue: 0, happiness: 50,
+              stage: enemy.stage, rank: 'Wild', potential: 50, ability: 'Feral Code',
+              moves: getMovesForElement(enemy.element), tactic: enemy.tactic
+          };
+          setInventory(prev => [...prev, newPet]);
+          showFloatingText(`CAUGHT ${profile.name}!`, 'text-green-400');
+      } else {
+          showFloatingText("It broke free!", 'text-red-400');
       }
+      setActiveBattle(null);
+  };
+
+  const damagePet = (amt: number) => {
+      if (!inventory[activePetIndex]) return;
+      setInventory(prev => prev.map((p, i) => i !== activePetIndex ? p : { ...p, currentHp: Math.max(0, (p.currentHp ?? p.maxHp ?? 100) - amt) }));
+      showFloatingText(`-${amt} HP`, 'text-red-500');
+  };
+
+  const setPetStatuses = (petId: string, statuses: StatusEffect[]) => {
+      setInventory(prev => prev.map(p => p.id !== petId ? p : { ...p, statuses }));
+  };
+
+  const afflictPet = (ids: StatusId[]) => {
+      setInventory(prev => prev.map((p, i) => i !== activePetIndex ? p : {
+          ...p, statuses: ids.reduce((list, id) => applyStatus(list, id), p.statuses)
+      }));
+      ids.forEach(id => showFloatingText(`${STATUS_DB[id].icon} ${STATUS_DB[id].label}!`, 'text-orange-400'));
+  };
+
+  const buffPet = (ids: BuffId[]) => {
+      setInventory(prev => prev.map((p, i) => i !== activePetIndex ? p : {
+          ...p, buffs: ids.reduce((list, id) => applyBuff(list, id), p.buffs)
+      }));
+      ids.forEach(id => showFloatingText(`${BUFF_DB[id].icon} ${BUFF_DB[id].label}!`, 'text-sky-300'));
+  };
+
+  // Outside of battle, ailments count down once per resolved event.
+  const exertPets = (petIds: string[], fatigue: number) => {
+      setInventory(prev => prev.map(p => petIds.includes(p.id) ? adjustNeeds(p, { fatigue }) : p));
+  };
+
+  const tickPetBuffs = (petIds: string[]) => {
+      setInventory(prev => prev.map(p => petIds.includes(p.id) && p.buffs?.length ? { ...p, buffs: tickBuffBattles(p.buffs) } : p));
+  };
+
+  const tickPetStatuses = () => {
+      const pet = inventory[activePetIndex];
+      if (!pet?.statuses?.length) return;
+      const tick = tickStatuses(pet.statuses, getStat(pet, 'hp'));
+      setInventory(prev => prev.map((p, i) => i !== activePetIndex ? p : {
+          ...p, statuses: tick.statuses, currentHp: Math.max(0, (p.currentHp || 100) - tick.damage)
+      }));
+      if (tick.damage > 0) showFloatingText(`-${tick.damage} HP`, 'text-orange-400');
   };
 
-  const addExp = (amount: number, silent: boolean = false) => {
-      const updated = [...inventory];
-      const pet = updated[activePetIndex];
-      pet.exp += amount;
+  // XP is split evenly between `petIds` (defaults to the active pet); the tamer gets the full amount.
+  const gainExp = (pet: Pixupet, share: number): Pixupet => {
+      const exp = pet.exp + share;
+      if (exp < pet.maxExp) return { ...pet, exp };
+      const maxHp = (pet.maxHp || 100) + 20;
+      return {
+          ...pet, level: pet.level + 1, exp: 0, maxExp: Math.floor(pet.maxExp * 1.4),
+          maxHp, currentHp: maxHp, atk: pet.atk + 5, def: pet.def + 5, spd: pet.spd + 5
+      };
+  };
+
+  const addExp = (amount: number, silent: boolean = false, petIds?: string[]) => {
+      const ids = petIds || (inventory[activePetIndex] ? [inventory[activePetIndex].id] : []);
+      const share = Math.floor(amount / Math.max(1, ids.length));
+      setInventory(prev => prev.map(p => ids.includes(p.id) ? gainExp(p, share) : p));
+      // Popup only; the state itself is updated from the latest inventory above.
+      const leveled = inventory.filter(p => ids.includes(p.id) && p.exp + share >= p.maxExp);
+      if (leveled.length) setShowLevelUp(gainExp(leveled[leveled.length - 1], share));
       if (!silent) showFloatingText(`+${amount} XP`, 'text-yellow-400');
-      if (pet.exp >= pet.maxExp) {
-          pet.level++; pet.exp = 0; pet.maxExp = Math.floor(pet.maxExp * 1.4);
-          pet.maxHp = (pet.maxHp || 100) + 20; pet.currentHp = pet.maxHp;
-          pet.atk += 5; pet.def += 5; pet.spd += 5;
-          setShowLevelUp(pet);
-      }
-      setInventory(updated);
-      const newExp = user.exp + amount;
-      if (newExp >= user.level * 150) {
-          setUser({ ...user, exp: 0, level: user.level + 1 });
-          showFloatingText("TAMER LEVEL UP!", "text-white");
-      } else { setUser({ ...user, exp: newExp }); }
+      if (user.exp + amount >= user.level * 150) showFloatingText("TAMER LEVEL UP!", "text-white");
+      setUser(u => {
+          const newExp = u.exp + amount;
+          return newExp >= u.level * 150 ? { ...u, exp: 0, level: u.level + 1 } : { ...u, exp: newExp };
+      });
   };
 
   const addCoins = (amt: number, silent: boolean = false) => {
@@ -643,7 +1140,7 @@ export default function App() {
   };
 
   const addItem = (itemId: string, silent: boolean = false) => {
-      setUser(u => ({ ...u, inventory: [...u.inventory, itemId] }));
+      setUser(u => addToBag(u, itemId));
       if (!silent) showFloatingText(`+ ${ITEMS_DB[itemId].name}!`, 'text-green-400');
   };
 
@@ -655,6 +1152,54 @@ export default function App() {
       });
   };
 
+  // Worn copies are never spent on a recipe.
+  const getWornGear = (exceptPetId?: string) => inventory.filter(p => p.id !== exceptPetId).flatMap(p => Object.values(p.gearRefs || {}) as string[]);
+  const getCraftCounts = () => getAvailableCounts(user, getWornGear());
+
+  const handleCraft = (recipe: Recipe) => {
+      if (!isRecipeUnlocked(recipe, user.bosses) || !canCraft(recipe, getCraftCounts(), user.coins)) {
+          showFloatingText("MISSING MATERIALS", "text-red-500");
+          return;
+      }
+      const worn = getWornGear();
+      setUser(u => ({ ...craftRecipe(recipe, u, worn), coins: u.coins - recipe.coins }));
+      showFloatingText(`🔨 FORGED ${ITEMS_DB[recipe.output].name}!`, 'text-orange-400');
+  };
+
+  const handleEnhance = (gear: GearInstance) => {
+      const cost = getEnhanceCost(gear);
+      const counts = getCraftCounts();
+      if (!cost || user.coins < cost.coins || Object.entries(cost.chips).some(([id, n]) => (counts[id] || 0) < n)) {
+          showFloatingText("MISSING MATERIALS", "text-red-500");
+          return;
+      }
+      const result = enhanceGear(gear, createRng());
+      setUser(u => ({
+          ...u,
+          coins: u.coins - cost.coins,
+          inventory: takeItems(u.inventory, cost.chips),
+          gear: (u.gear || []).map(g => g.uid === gear.uid ? result.gear : g)
+      }));
+      if (result.success) showFloatingText(`✨ ${getGearName(result.gear)}!`, 'text-yellow-300');
+      else showFloatingText(result.gear.level < gear.level ? `💥 FAILED · DOWN TO +${result.gear.level}` : '💥 ENHANCE FAILED', 'text-red-500');
+  };
+
+  const claimOfflineReport = () => {
+      if (!offlineReport) return;
+      const { xpGained, coinsFound, itemsFound, hpLost, hungerLost } = offlineReport;
+      if (xpGained) addExp(xpGained);
+      if (coinsFound) addCoins(coinsFound, true);
+      itemsFound.forEach(id => addItem(id, true));
+      // Time away can wear a pet down but never knocks it out.
+      setInventory(prev => prev.map((p, i) => i !== activePetIndex ? p : {
+          ...p,
+          hunger: Math.max(0, p.hunger - hungerLost),
+          currentHp: Math.max(1, (p.currentHp ?? p.maxHp ?? 100) - hpLost)
+      }));
+      setUser(u => ({ ...u, pendingOffline: undefined }));
+      setOfflineReport(null);
+  };
+
   const showFloatingText = (text: string, color: string) => {
       const id = Date.now() + Math.random();
       setNotifs(prev => [...prev, { id, text, x: 50, y: 40, color }]);
@@ -671,12 +1216,11 @@ export default function App() {
           if(!traits.def) traits.def = 10;
           if(!traits.spd) traits.spd = 10;
           
-          const voxelCode = getGenericVoxel(traits.element, traits.bodyType, 'Noob', traits.visualTraits, traits.name);
           const newPet: Pixupet = {
               id: `pet_${Date.now()}`, dateCreated: Date.now(), ...traits,
-              voxelCode, level: 1, exp: 0, maxExp: 100, hunger: 80, fatigue: 0, happiness: 80,
+              rendererVersion: VOXEL_RENDERER_VERSION, level: 1, exp: 0, maxExp: 100, hunger: 80, fatigue: 0, happiness: 80,
               stage: 'Noob', rank: 'Common', potential: 50, currentHp: traits.hp, maxHp: traits.hp,
-              ability: "Glitch Soul", moves: [], imageSource: scanPreview
+              ability: "Glitch Soul", moves: getMovesForElement(traits.element), imageSource: scanPreview
           };
           setInventory([...inventory, newPet]);
           setActivePetIndex(inventory.length); 
@@ -688,55 +1232,117 @@ export default function App() {
   };
 
   const handleStarterSelect = (starter: any) => {
-      const voxelCode = getGenericVoxel(starter.element, starter.bodyType, 'Noob', starter.visualTraits, starter.name);
       const newPet: Pixupet = {
           id: `starter_${Date.now()}`, dateCreated: Date.now(), name: starter.name, element: starter.element,
           description: starter.description, visual_design: starter.visual_design, bodyType: starter.bodyType,
           visualTraits: starter.visualTraits, rarity: 'Common', nature: 'Brave',
           hp: starter.stats.hp, maxHp: starter.stats.hp, currentHp: starter.stats.hp,
           atk: starter.stats.atk, def: starter.stats.def, spd: starter.stats.spd, int: 10,
-          voxelCode, level: 1, exp: 0, maxExp: 100, hunger: 100, fatigue: 0, happiness: 100,
-          stage: 'Noob', rank: 'Starter', potential: 80, ability: 'Starter Will', moves: []
+          rendererVersion: VOXEL_RENDERER_VERSION, level: 1, exp: 0, maxExp: 100, hunger: 100, fatigue: 0, happiness: 100,
+          stage: 'Noob', rank: 'Starter', potential: 80, ability: 'Starter Will', moves: getMovesForElement(starter.element)
       };
       setInventory([newPet]);
       setActivePetIndex(0);
       setGameState('NEXUS');
   };
 
-  const getStat = (pet: Pixupet, stat: 'atk'|'def'|'spd'|'hp') => {
+  // `owned` is the bag gear refs resolve against; the player's own by default.
+  const getStat = (pet: Pick<Pixupet, 'atk'|'def'|'spd'|'hp'|'maxHp'|'equipment'|'gearRefs'|'buffs'>, stat: 'atk'|'def'|'spd'|'hp', owned: GearInstance[] | undefined = user.gear) => {
       let base = pet[stat] || 0;
       if (stat === 'hp' && pet.maxHp) base = pet.maxHp;
-      if (pet.equipment) {
-          Object.entries(pet.equipment).forEach(([slot, itemId]) => {
-              if(itemId) {
-                  const item = ITEMS_DB[itemId as string];
-                  if (item && item.statBonus && item.statBonus[stat]) base += item.statBonus[stat]!;
-              }
-          });
-      }
-      return base;
+      base += getEquipmentBonus(pet, owned)[stat] || 0;
+      return Math.max(0, base + getBuffBonus(pet.buffs, stat));
   };
 
-  const handleEquip = (slot: EquipmentSlot, itemId: string) => {
-      const updated = [...inventory];
-      const pet = updated[activePetIndex];
-      if (!pet.equipment) pet.equipment = {};
-      pet.equipment[slot === 'HEAD' ? 'head' : slot === 'BODY' ? 'body' : 'accessory'] = itemId;
+  const handleEquip = (petId: string, slot: EquipmentSlot, gear: GearInstance) => {
+      const key = slot === 'HEAD' ? 'head' : slot === 'BODY' ? 'body' : 'accessory';
+      const updated = inventory.map(p => p.id !== petId ? p : {
+          ...p,
+          equipment: { ...p.equipment, [key]: gear.itemId },
+          gearRefs: { ...p.gearRefs, [key]: gear.uid }
+      });
       setInventory(updated);
+      setSelectedCard(updated.find(p => p.id === petId) || null);
       setShowGearSelect(null);
   };
 
+  // --- PARTY ---
+  const partyIds = (user.party || []).filter(id => inventory.some(p => p.id === id));
+  const currentParty = partyIds.length ? partyIds : activePet ? [activePet.id] : [];
+
+  // The active pet leads; anyone knocked out (the lead included) sits the fight out.
+  // `fresh` fights restore everyone first, so nobody is left out.
+  const getBattleTeam = (fresh: boolean = false): Pixupet[] => {
+      if (!activePet) return [];
+      return [activePet.id, ...currentParty.filter(id => id !== activePet.id)]
+          .map(id => inventory.find(p => p.id === id))
+          .filter((p): p is Pixupet => !!p && (fresh || (p.currentHp ?? p.maxHp ?? 1) > 0))
+          .slice(0, MAX_PARTY);
+  };
+
+  const updateParty = (ids: string[]) => {
+      const party = ids.slice(0, MAX_PARTY);
+      setUser(prev => ({ ...prev, party }));
+      const leadIdx = inventory.findIndex(p => p.id === party[0]);
+      if (leadIdx >= 0) setActivePetIndex(leadIdx);
+  };
+
+  const togglePartyMember = (petId: string) => {
+      if (currentParty.includes(petId)) {
+          if (currentParty.length === 1) { showFloatingText("PARTY NEEDS A LEADER", "text-red-500"); return; }
+          updateParty(currentParty.filter(id => id !== petId));
+      } else {
+          if (currentParty.length >= MAX_PARTY) { showFloatingText("PARTY FULL!", "text-red-500"); return; }
+          updateParty([...currentParty, petId]);
+      }
+  };
+
+  // --- EVOLUTION CUTSCENE ---
+
+  const advanceEvolution = (phase: EvolutionPhase) => {
+      setEvolutionScene(prev => prev && prev.phase === phase ? { ...prev, phase: phase === 'CHARGE' ? 'REVEAL' : 'DONE' } : prev);
+  };
+
+  const closeEvolution = () => {
+      if (!evolutionScene) return;
+      setSelectedCard(inventory.find(p => p.id === evolutionScene.after.id) || null);
+      setEvolutionScene(null);
+  };
+
+  const handleSetTactic = (petId: string, tactic: AITactic) => {
+      const updated = inventory.map(p => p.id === petId ? { ...p, tactic } : p);
+      setInventory(updated);
+      setSelectedCard(updated.find(p => p.id === petId) || null);
+  };
+
+  // Rolls happen up front; the overlay only plays the reveal.
+  const openLootBox = (item: GameItem, invIndex: number) => {
+      const table = LOOT_TABLES[item.lootTable!]?.(user.currentLocation);
+      const prize = table && rollLootTable(table, createRng());
+      if (!prize) return;
+      removeItem(invIndex);
+      addItem(prize, true);
+      setConfirmItem(null);
+      setLootReveal({ boxId: item.id, itemId: prize, opened: false });
+      setTimeout(() => setLootReveal(prev => prev && { ...prev, opened: true }), 1500);
+  };
+
   const handleUseItem = (item: GameItem, invIndex: number) => {
-      if (item.type === 'Food' || item.type === 'Consumable') {
+      if (item.lootTable) {
+          openLootBox(item, invIndex);
+      } else if (item.type === 'Food' || item.type === 'Consumable') {
           const updated = [...inventory];
           const pet = updated[activePetIndex];
-          if (item.effect) {
-              updated[activePetIndex] = item.effect(pet);
+          if (item.effects?.length) {
+              updated[activePetIndex] = applyItemEffects(pet, item.effects);
+              if (item.type === 'Food') updated[activePetIndex] = adjustNeeds(updated[activePetIndex], { happiness: HAPPINESS_PER_MEAL });
               setInventory(updated);
               removeItem(invIndex);
               showFloatingText(`Used ${item.name}!`, 'text-green-400');
               setConfirmItem(null);
           }
+      } else if (item.type === 'Capture') {
+          showFloatingText("Throw it after winning a battle!", "text-yellow-300");
       } else {
           showFloatingText("Cannot use this item here.", "text-red-400");
       }
@@ -763,6 +1369,8 @@ export default function App() {
           iframe.contentWindow.postMessage({ type: 'INTERACT_POKE' }, '*');
       }
 
+      setInventory(prev => prev.map((p, i) => i !== activePetIndex ? p : adjustNeeds(p, { happiness: HAPPINESS_PER_POKE })));
+
       let msg = getPetSpeech(); // Use varied speech
       if (statusText.toLowerCase().includes('nap') || statusText.toLowerCase().includes('rest')) msg = "Woke me up!";
       
@@ -792,6 +1400,13 @@ export default function App() {
                <h2 className="font-['Bangers'] text-2xl sm:text-3xl text-black tracking-wide">Turn Anything into a Pet!</h2>
           </div>
           
+          {saveError && (
+              <div className="neo-pop-box bg-red-100 px-6 py-4 mb-6 max-w-xs sm:max-w-md text-center z-20">
+                  <div className="font-black text-red-600 uppercase mb-1">Save could not be loaded</div>
+                  <div className="text-xs font-bold text-gray-700 mb-2">{saveError}</div>
+                  <div className="text-[10px] font-bold text-gray-500">Your original save was kept as a backup. Reload to retry, or start over below.</div>
+              </div>
+          )}
           <div className="flex flex-col gap-4 z-20">
               {inventory.length > 0 && (
                   <button onClick={() => setGameState('NEXUS')} 
@@ -799,11 +1414,63 @@ export default function App() {
                       RESUME GAME
                   </button>
               )}
-              <button onClick={handleNewGame} 
-                  className={`pop-btn ${inventory.length > 0 ? 'btn-danger text-sm py-2' : 'btn-primary text-xl py-4'} px-8 hover:scale-105 active:scale-95 transition-all`}>
-                  {inventory.length > 0 ? "RESET SAVE" : "NEW GAME"}
+              <button onClick={handleNewGame} disabled={slots.length >= MAX_SAVE_SLOTS}
+                  className={`pop-btn ${inventory.length > 0 ? 'bg-white text-sm py-2' : 'btn-primary text-xl py-4'} px-8 hover:scale-105 active:scale-95 transition-all disabled:opacity-50`}>
+                  NEW GAME {slots.length >= MAX_SAVE_SLOTS && '(SLOTS FULL)'}
               </button>
+              <div className="flex gap-2">
+                  {inventory.length > 0 && (
+                      <button onClick={handleExportSave} className="pop-btn bg-white text-xs py-2 px-4 flex-1">EXPORT SAVE</button>
+                  )}
+                  <label className="pop-btn bg-white text-xs py-2 px-4 flex-1 text-center cursor-pointer">
+                      IMPORT SAVE
+                      <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleImportFile(file);
+                          e.target.value = '';
+                      }} />
+                  </label>
+              </div>
           </div>
+          {slots.length > 0 && (
+              <div className="neo-pop-box bg-white p-3 mt-6 w-full max-w-sm z-20">
+                  <h4 className="font-black text-xs text-gray-500 mb-2 uppercase text-center">Save Slots {slots.length}/{MAX_SAVE_SLOTS}</h4>
+                  <div className="flex flex-col gap-2">
+                      {slots.map(slot => {
+                          const isActive = slot.id === getActiveSlotId();
+                          return (
+                              <div key={slot.id} className={`rounded-lg border-2 border-black p-2 flex items-center gap-2 ${isActive ? 'bg-yellow-200' : 'bg-gray-50'}`}>
+                                  <div className="flex-1 min-w-0">
+                                      <div className="font-black text-sm truncate">{slot.name} <span className="text-gray-500">LV.{slot.level}</span></div>
+                                      <div className="text-[10px] font-bold text-gray-500">{slot.pets} pets · {formatPlayTime(slot.updatedAt - slot.joinedAt)} played</div>
+                                  </div>
+                                  {!isActive && <button onClick={() => openSlot(slot.id)} className="bg-blue-500 text-white rounded border-2 border-black text-[10px] font-black px-2 py-1">LOAD</button>}
+                                  <button onClick={() => handleDuplicateSlot(slot.id)} disabled={slots.length >= MAX_SAVE_SLOTS} className="bg-white rounded border-2 border-black text-[10px] font-black px-2 py-1 disabled:opacity-40">COPY</button>
+                                  <button onClick={() => handleDeleteSlot(slot)} className="bg-red-500 text-white rounded border-2 border-black text-[10px] font-black px-2 py-1">✕</button>
+                              </div>
+                          );
+                      })}
+                  </div>
+              </div>
+          )}
+          {pendingImport && (
+              <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-6">
+                  <div className="neo-pop-box bg-white p-6 max-w-sm w-full pop-in">
+                      <h3 className="font-black text-xl uppercase mb-2">Import Save</h3>
+                      <div className="text-sm font-bold text-gray-700 mb-1">{pendingImport.user.name} · LV.{pendingImport.user.level}</div>
+                      <div className="text-xs font-bold text-gray-500 mb-4">{pendingImport.inventory.length} pets · {pendingImport.replays.length} replays</div>
+                      <div className="flex flex-col gap-2">
+                          {inventory.length > 0 && (
+                              <button onClick={() => applyImport('MERGE')} className="pop-btn btn-primary w-full text-sm">MERGE (ADD NEW PETS)</button>
+                          )}
+                          <button onClick={() => applyImport('REPLACE')} className="pop-btn btn-danger w-full text-sm">
+                              {inventory.length > 0 ? 'REPLACE CURRENT GAME' : 'LOAD THIS GAME'}
+                          </button>
+                          <button onClick={() => setPendingImport(null)} className="pop-btn bg-white w-full text-sm">CANCEL</button>
+                      </div>
+                  </div>
+              </div>
+          )}
       </div>
   );
 
@@ -854,7 +1521,7 @@ export default function App() {
       {/* VOXEL LAYER */}
       <div className="absolute inset-0 z-0 w-full h-full">
         {activePet && <VoxelViewer 
-            code={activePet.voxelCode} 
+            code={getPetVoxel(activePet)} 
             action={getActionFromText(statusText)} 
             theme={location.environmentType} 
             equipment={activePet.equipment} 
@@ -884,6 +1551,45 @@ export default function App() {
                   <div className="w-32 h-3 bg-gray-300 rounded-full mt-1 overflow-hidden border-2 border-black relative">
                       <div className="h-full bg-gradient-to-r from-yellow-400 to-orange-500 border-r-2 border-black" style={{width: `${(activePet?.exp / activePet?.maxExp)*100}%`}}></div>
                   </div>
+                  {activePet && (
+                      <div className="flex gap-1 mt-1">
+                          {([['🍖', activePet.hunger, 'bg-orange-400'], ['⚡', 100 - activePet.fatigue, 'bg-sky-400'], ['💖', activePet.happiness ?? 100, 'bg-pink-400']] as const).map(([icon, value, color]) => (
+                              <div key={icon} className="flex items-center gap-0.5">
+                                  <span className="text-[9px]">{icon}</span>
+                                  <div className="w-8 h-1.5 bg-gray-300 rounded-full overflow-hidden border border-black">
+                                      <div className={`h-full ${color}`} style={{ width: `${value}%` }}></div>
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  )}
+                  {activePet && getNeedWarnings(activePet).length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                          {getNeedWarnings(activePet).map(id => (
+                              <span key={id} title={NEED_WARNINGS[id].desc} className={`${NEED_WARNINGS[id].color} text-[9px] font-black px-1 rounded border border-black animate-pulse`}>
+                                  {NEED_WARNINGS[id].icon} {NEED_WARNINGS[id].label.toUpperCase()}
+                              </span>
+                          ))}
+                      </div>
+                  )}
+                  {activePet?.statuses && activePet.statuses.length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                          {activePet.statuses.map(st => (
+                              <span key={st.id} title={STATUS_DB[st.id].desc} className={`${STATUS_DB[st.id].color} text-[9px] font-black px-1 rounded border border-black`}>
+                                  {STATUS_DB[st.id].icon}{st.stacks > 1 ? `x${st.stacks}` : ''} {st.turns}
+                              </span>
+                          ))}
+                      </div>
+                  )}
+                  {getActiveBuffs(activePet?.buffs).length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                          {getActiveBuffs(activePet.buffs).map(b => (
+                              <span key={b.id} title={`${BUFF_DB[b.id].label}: ${BUFF_DB[b.id].desc}`} className={`${BUFF_DB[b.id].color} text-[9px] font-black px-1 rounded border border-black`}>
+                                  {BUFF_DB[b.id].icon}{b.stacks > 1 ? `x${b.stacks}` : ''} {formatBuffLeft(b)}
+                              </span>
+                          ))}
+                      </div>
+                  )}
               </div>
               <div className="bg-blue-500 text-white border-2 border-black rounded-full w-6 h-6 flex items-center justify-center text-xs font-bold shadow-[2px_2px_0_#000]">i</div>
           </div>
@@ -947,57 +1653,44 @@ export default function App() {
       </div>
 
       {activeBattle && (
-          <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4 backdrop-blur-sm">
-              <div className="w-full max-w-lg bg-white border-4 border-black rounded-2xl overflow-hidden shadow-[10px_10px_0_#000] flex flex-col h-[75vh] pop-in">
-                  <div className="bg-red-500 text-white p-3 text-center font-black text-2xl tracking-widest border-b-4 border-black flex justify-center items-center gap-2 italic transform skew-x-[-5deg]">
-                      <IconSkull /> WILD ENCOUNTER
-                  </div>
-                  <div className="flex-1 bg-gradient-to-b from-slate-800 to-black relative overflow-hidden flex border-b-4 border-black">
-                       <div className="w-1/2 h-full relative border-r-4 border-black">
-                           <VoxelViewer code={activePet.voxelCode} mode="BATTLE_PLAYER" equipment={activePet.equipment} />
-                           <div className="absolute bottom-2 left-2 bg-blue-600 text-white text-[9px] font-bold px-2 py-1 border-2 border-black rounded transform -skew-x-12 shadow-md">YOU</div>
-                       </div>
-                       <div className="w-1/2 h-full relative">
-                           <VoxelViewer code={activeBattle.enemy.voxelCode} mode="BATTLE_ENEMY" />
-                           <div className="absolute top-2 right-2 bg-red-600 text-white text-[9px] font-bold px-2 py-1 border-2 border-black rounded transform -skew-x-12 shadow-md">ENEMY</div>
-                       </div>
-                       
-                       {activeBattle.finished && (
-                           <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-20 backdrop-blur-sm animate-in fade-in zoom-in">
-                               {activeBattle.rewards && activeBattle.win && (
-                                   <div className="flex gap-4 mb-6">
-                                       {activeBattle.rewards.exp && <div className="bg-yellow-400 text-black font-black p-3 rounded-lg border-2 border-black shadow-[4px_4px_0_black] pop-in" style={{animationDelay: '0.1s'}}>+{activeBattle.rewards.exp} XP</div>}
-                                       {activeBattle.rewards.coins && <div className="bg-yellow-200 text-black font-black p-3 rounded-lg border-2 border-black shadow-[4px_4px_0_black] pop-in" style={{animationDelay: '0.2s'}}>+{activeBattle.rewards.coins} G</div>}
-                                       {activeBattle.rewards.items && activeBattle.rewards.items.map((item: string, idx: number) => (
-                                           <div key={idx} className="bg-green-400 text-black font-black p-3 rounded-lg border-2 border-black shadow-[4px_4px_0_black] pop-in" style={{animationDelay: '0.3s'}}>
-                                               ITEM!
-                                           </div>
-                                       ))}
-                                   </div>
-                               )}
-                               <h1 className={`text-6xl font-black ${activeBattle.win ? 'text-yellow-400 stroke-black' : 'text-red-500 stroke-black'} drop-shadow-[6px_6px_0_#000] -rotate-6`} style={{WebkitTextStroke: '2px black'}}>
-                                   {activeBattle.win ? 'VICTORY!' : 'DEFEATED'}
-                               </h1>
-                           </div>
-                       )}
-                  </div>
-                  <div className="h-[30%] bg-gray-100 p-4 font-mono text-xs overflow-y-auto flex flex-col gap-2">
-                      {activeBattle.logs.map((log:string, i:number) => (
-                          <div key={i} className="text-black font-bold border-l-4 border-black pl-2 bg-white p-1 shadow-sm">
-                              {log}
-                          </div>
-                      ))}
-                      <div ref={logScrollRef} />
+          <BattleScreen
+              title={activeBattle.boss ? 'BOSS BATTLE' : activeBattle.pvp ? `VS ${activeBattle.pvp}` : undefined}
+              seed={activeBattle.seed}
+              playerCode={getPetVoxel(activeBattle.team[activeBattle.playerIdx])}
+              playerEquipment={activeBattle.team[activeBattle.playerIdx].equipment}
+              enemyCode={activeBattle.enemies[activeBattle.enemyIdx].voxelCode}
+              playerLabel={activeBattle.team.length > 1 ? `YOU ${activeBattle.playerIdx + 1}/${activeBattle.team.length}` : undefined}
+              enemyLabel={activeBattle.enemies.length > 1 ? `ENEMY ${activeBattle.enemyIdx + 1}/${activeBattle.enemies.length}` : undefined}
+              logs={activeBattle.logs}
+              finished={activeBattle.finished}
+              win={activeBattle.win}
+              rewards={activeBattle.rewards}
+          >
+              {activeBattle.capture && (
+                  <div className="flex flex-col gap-2 mt-6 w-2/3">
+                      {Array.from(new Set<string>(user.inventory.filter(id => ITEMS_DB[id]?.type === 'Capture'))).map(id => {
+                          const item = ITEMS_DB[id];
+                          const chance = getCaptureChance(activeBattle.capture.hpRatio, activeBattle.capture.enemy.rarity, item.catchRate || 1);
+                          return (
+                              <button key={id} onClick={() => handleCapture(id)} className="pop-btn btn-success text-xs py-2 flex items-center justify-center gap-2">
+                                  <span className="w-5 h-5 inline-block"><ItemIcon item={item} /></span> {item.name} ({Math.round(chance * 100)}%)
+                              </button>
+                          );
+                      })}
+                      <button onClick={() => setActiveBattle(null)} className="pop-btn btn-danger text-xs py-2">LEAVE IT</button>
                   </div>
-              </div>
-          </div>
+              )}
+          </BattleScreen>
       )}
 
+      {replayView && <ReplayPlayer replay={replayView} onClose={() => setReplayView(null)} />}
+
       {activeEvent && (
           <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-6">
               <div className="w-full max-w-md bg-white border-4 border-black rounded-2xl overflow-hidden shadow-[12px_12px_0_#000] pop-in">
                   <div className={`p-4 text-center font-black text-2xl border-b-4 border-black tracking-wider ${activeEvent.type === 'HAZARD' ? 'bg-red-500 text-white' : 'bg-blue-400 text-black'}`}>
                       {activeEvent.title}
+                      {activeEvent.seed !== undefined && <div className="text-[9px] font-mono opacity-60">#{formatSeed(activeEvent.seed)}</div>}
                   </div>
                   <div className="p-8 text-center min-h-[220px] flex flex-col items-center justify-center relative bg-yellow-50">
                       {!activeEvent.finished ? (
@@ -1033,30 +1726,148 @@ export default function App() {
                        <IconCards /> MY BINDER 
                        <span className="bg-black text-white text-sm px-3 py-1 rounded-full">{inventory.length}</span>
                    </h2>
-                   <button onClick={() => setGameState('NEXUS')} className="bg-red-500 text-white w-10 h-10 rounded-lg flex items-center justify-center font-black border-3 border-black hover:bg-red-400 shadow-[4px_4px_0_#000]">✕</button>
+                   <div className="flex gap-2">
+                       <button onClick={() => setGameState('PVP')} className="bg-purple-500 text-white h-10 px-3 rounded-lg flex items-center justify-center font-black text-xs border-3 border-black hover:bg-purple-400 shadow-[4px_4px_0_#000]">⚔️ PVP</button>
+                       <button onClick={() => setGameState('HISTORY')} className="bg-blue-500 text-white h-10 px-3 rounded-lg flex items-center justify-center font-black text-xs border-3 border-black hover:bg-blue-400 shadow-[4px_4px_0_#000]">📼 BATTLES</button>
+                       <button onClick={() => setGameState('NEXUS')} className="bg-red-500 text-white w-10 h-10 rounded-lg flex items-center justify-center font-black border-3 border-black hover:bg-red-400 shadow-[4px_4px_0_#000]">✕</button>
+                   </div>
+               </div>
+               <div className="neo-pop-box bg-white p-3 mb-6 max-w-md mx-auto">
+                   <h4 className="font-black text-xs text-gray-500 mb-2 uppercase text-center">Battle Party</h4>
+                   <div className="grid grid-cols-3 gap-2">
+                       {Array.from({ length: MAX_PARTY }).map((_, slot) => {
+                           const pet = inventory.find(p => p.id === currentParty[slot]);
+                           if (!pet) return <div key={slot} className="h-20 rounded-xl border-2 border-dashed border-gray-400 flex items-center justify-center text-gray-400 font-black text-xs">EMPTY</div>;
+                           return (
+                               <div key={slot} className={`h-20 rounded-xl border-2 border-black p-2 flex flex-col justify-between ${slot === 0 ? 'bg-yellow-300' : 'bg-gray-100'}`}>
+                                   <div className="font-black text-[10px] uppercase truncate">{ELEMENT_THEMES[pet.element]?.icon} {pet.name}</div>
+                                   <div className="text-[9px] font-bold text-gray-600">{slot === 0 ? 'LEADER' : `SLOT ${slot + 1}`} · LV.{pet.level}</div>
+                                   <div className="flex gap-1">
+                                       {slot > 0 && <button onClick={() => updateParty([pet.id, ...currentParty.filter(id => id !== pet.id)])} className="flex-1 bg-blue-500 text-white rounded border-2 border-black text-[9px] font-black">LEAD</button>}
+                                       {currentParty.length > 1 && <button onClick={() => togglePartyMember(pet.id)} className="flex-1 bg-red-500 text-white rounded border-2 border-black text-[9px] font-black">✕</button>}
+                                   </div>
+                               </div>
+                           );
+                       })}
+                   </div>
                </div>
                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                    {inventory.map(pet => (
-                       <div key={pet.id} className="transform transition-transform hover:scale-105 active:scale-95">
+                       <div key={pet.id} className="relative transform transition-transform hover:scale-105 active:scale-95">
                            <PixuCard pet={pet} onClick={() => setSelectedCard(pet)} />
+                           <button onClick={() => togglePartyMember(pet.id)}
+                                className={`absolute -top-2 -right-2 z-10 w-8 h-8 rounded-full border-2 border-black font-black text-xs shadow-[2px_2px_0_#000] ${currentParty.includes(pet.id) ? 'bg-yellow-400' : 'bg-white text-gray-400'}`}>
+                               {currentParty.includes(pet.id) ? currentParty.indexOf(pet.id) + 1 : '+'}
+                           </button>
                        </div>
                    ))}
                </div>
           </div>
       )}
 
+      {gameState === 'PVP' && (
+          <div className="absolute inset-0 bg-purple-100 z-40 overflow-y-auto pt-24 pb-24 px-4">
+               <div className="fixed top-0 left-0 right-0 bg-white/95 p-4 border-b-4 border-black z-50 flex justify-between items-center shadow-lg safe-top">
+                   <h2 className="text-black font-black text-2xl tracking-wide flex items-center gap-2">
+                       ⚔️ PVP ARENA
+                       <span className="bg-black text-white text-sm px-3 py-1 rounded-full">{user.pvp?.wins || 0}W - {user.pvp?.losses || 0}L</span>
+                   </h2>
+                   <button onClick={() => setGameState('COLLECTION')} className="bg-red-500 text-white w-10 h-10 rounded-lg flex items-center justify-center font-black border-3 border-black hover:bg-red-400 shadow-[4px_4px_0_#000]">✕</button>
+               </div>
+               <div className="flex flex-col gap-4 max-w-md mx-auto">
+                   <div className="neo-pop-box bg-white p-4">
+                       <h4 className="font-black text-xs text-gray-500 mb-2 uppercase">Share Your Party</h4>
+                       <div className="text-[10px] font-bold text-gray-600 mb-3">{getBattleTeam(true).slice(0, MAX_PVP_TEAM).map(p => p.name).join(' · ')}</div>
+                       <div className="flex gap-2">
+                           <button onClick={() => { navigator.clipboard?.writeText(encodePvpTeam(getPvpTeam())); showFloatingText("CODE COPIED!", "text-green-500"); }} className="pop-btn btn-primary flex-1 text-sm">COPY CODE</button>
+                           <button onClick={downloadPvpFile} className="pop-btn bg-white flex-1 text-sm">SAVE FILE</button>
+                       </div>
+                   </div>
+                   <div className="neo-pop-box bg-white p-4">
+                       <h4 className="font-black text-xs text-gray-500 mb-2 uppercase">Import Opponent</h4>
+                       <textarea value={pvpInput} onChange={e => setPvpInput(e.target.value)} placeholder="Paste a PvP code..."
+                                 className="w-full h-20 border-2 border-black rounded-lg p-2 font-mono text-[10px] mb-2" />
+                       <div className="flex gap-2">
+                           <button onClick={() => handlePvpImport(pvpInput)} className="pop-btn btn-primary flex-1 text-sm">LOAD CODE</button>
+                           <label className="pop-btn bg-white flex-1 text-sm text-center cursor-pointer">
+                               LOAD FILE
+                               <input type="file" accept=".json,application/json,text/plain" className="hidden" onChange={(e) => {
+                                   const file = e.target.files?.[0];
+                                   if (file) file.text().then(handlePvpImport);
+                                   e.target.value = '';
+                               }} />
+                           </label>
+                       </div>
+                       {pvpError && <div className="mt-2 text-xs font-black text-red-500">{pvpError}</div>}
+                   </div>
+                   {pvpRival && (
+                       <div className="neo-pop-box bg-white p-4">
+                           <h4 className="font-black text-xs text-gray-500 mb-2 uppercase">{pvpRival.trainer}'s Party</h4>
+                           <div className="flex flex-col gap-2 mb-3">
+                               {pvpRival.pets.map((p, i) => (
+                                   <div key={i} className="flex justify-between items-center bg-gray-100 rounded-lg border-2 border-black px-3 py-2">
+                                       <span className="font-black text-sm">{ELEMENT_THEMES[p.element]?.icon} {p.name}</span>
+                                       <span className="text-[10px] font-bold text-gray-600">LV.{p.level} · ATK {getStat(p, 'atk')} · DEF {getStat(p, 'def')} · SPD {getStat(p, 'spd')}</span>
+                                   </div>
+                               ))}
+                           </div>
+                           <button onClick={() => { setGameState('NEXUS'); startPvpBattle(pvpRival); }} className="pop-btn bg-red-500 text-white w-full">FIGHT!</button>
+                       </div>
+                   )}
+               </div>
+          </div>
+      )}
+
+      {gameState === 'HISTORY' && (
+          <div className="absolute inset-0 bg-slate-100 z-40 overflow-y-auto pt-24 pb-24 px-4">
+               <div className="fixed top-0 left-0 right-0 bg-white/95 p-4 border-b-4 border-black z-50 flex justify-between items-center shadow-lg safe-top">
+                   <h2 className="text-black font-black text-2xl tracking-wide flex items-center gap-2">
+                       📼 BATTLE HISTORY
+                       <span className="bg-black text-white text-sm px-3 py-1 rounded-full">{replays.length}</span>
+                   </h2>
+                   <button onClick={() => setGameState('COLLECTION')} className="bg-red-500 text-white w-10 h-10 rounded-lg flex items-center justify-center font-black border-3 border-black hover:bg-red-400 shadow-[4px_4px_0_#000]">✕</button>
+               </div>
+               {replays.length === 0 ? (
+                   <div className="text-center text-gray-500 font-bold mt-10">No battles recorded yet.</div>
+               ) : (
+                   <div className="flex flex-col gap-3 max-w-md mx-auto">
+                       {replays.map(replay => (
+                           <div key={replay.id} onClick={() => setReplayView(replay)}
+                                className="bg-white rounded-xl border-3 border-black flex items-center p-3 shadow-[3px_3px_0_#ccc] hover:-translate-y-1 hover:shadow-[4px_4px_0_#999] transition-all cursor-pointer">
+                               <div className={`w-12 h-12 mr-4 rounded-lg border-2 border-black flex items-center justify-center font-black text-xs ${replay.win ? 'bg-yellow-400' : 'bg-red-400 text-white'}`}>
+                                   {replay.win ? 'WIN' : 'LOSS'}
+                               </div>
+                               <div className="flex-1">
+                                   <div className="font-black text-sm">
+                                       {ELEMENT_THEMES[replay.players[0].element]?.icon} {replay.players[0].name}{replay.players.length > 1 && ` +${replay.players.length - 1}`}
+                                       <span className="text-gray-400"> vs </span>
+                                       {ELEMENT_THEMES[replay.enemies[0].element]?.icon} {replay.enemies[0].name}{replay.enemies.length > 1 && ` +${replay.enemies.length - 1}`}
+                                   </div>
+                                   <div className="text-[10px] font-bold text-gray-500">
+                                       {LOCATIONS_DB[replay.locationId]?.name || 'PvP Arena'} · {new Date(replay.date).toLocaleString()} · <span className="font-mono">#{formatSeed(replay.seed)}</span>
+                                   </div>
+                               </div>
+                               <div className="text-2xl">▶</div>
+                           </div>
+                       ))}
+                   </div>
+               )}
+          </div>
+      )}
+
       {shopOpen && (
           <div className="absolute inset-0 z-40 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm">
                <div className="w-full max-w-md bg-white rounded-2xl overflow-hidden border-4 border-black shadow-[12px_12px_0_#000] flex flex-col h-[85vh] pop-in">
                    <div className="bg-purple-400 p-4 border-b-4 border-black flex justify-between items-center">
                        <h2 className="font-black text-2xl text-white flex items-center gap-2 drop-shadow-md"><IconCart /> ITEM SHOP</h2>
                        <div className="flex gap-3 items-center">
+                           <button onClick={() => setOddsOpen(true)} className="font-black text-xs bg-white px-2 py-1 rounded-lg border-2 border-black shadow-sm">📜 ODDS</button>
                            <span className="font-black text-black bg-yellow-400 px-3 py-1 rounded-lg border-2 border-black shadow-sm"><IconCoin /> {user.coins}</span>
                            <button onClick={()=>setShopOpen(false)} className="text-2xl font-black text-white hover:scale-110 drop-shadow-md">✕</button>
                        </div>
                    </div>
                    <div className="flex-1 overflow-y-auto p-4 grid grid-cols-1 gap-4 bg-gray-50">
-                       {['potion_small', 'pixel_pizza', 'helm_iron', 'armor_vest', 'driver_crimson', 'acc_boots', 'helm_visor', 'acc_ring', 'mystery_box'].map(id => {
+                       {['potion_small', 'pixel_pizza', 'capsule_basic', 'capsule_great', 'helm_iron', 'armor_vest', 'driver_crimson', 'acc_boots', 'helm_visor', 'acc_ring', 'mystery_box'].map(id => {
                            const item = ITEMS_DB[id];
                            return (
                                <div key={id} className="flex items-center bg-white p-3 rounded-xl border-3 border-black shadow-[4px_4px_0_#ccc] hover:translate-y-[-2px] hover:shadow-[6px_6px_0_#999] transition-all">
@@ -1065,7 +1876,7 @@ export default function App() {
                                    </div>
                                    <div className="flex-1">
                                        <div className="font-black text-base">{item.name}</div>
-                                       <div className="text-xs text-gray-600 font-bold">{item.description}</div>
+                                       <div className="text-xs text-gray-600 font-bold">{getItemDescription(item)}</div>
                                    </div>
                                    <button onClick={() => handlePurchase(item)} className="pop-btn btn-success text-xs py-2 px-3 border-2 shadow-[2px_2px_0_#000]">
                                        {item.price} G
@@ -1105,6 +1916,7 @@ export default function App() {
                                 <div className="text-3xl mb-1 drop-shadow-md">{isLocked ? '🔒' : '📍'}</div>
                                 <div className="font-black text-xs leading-tight px-2 bg-black/60 text-white rounded backdrop-blur-sm border border-white/20">{loc.name}</div>
                                 {isLocked && <div className="text-[9px] mt-1 font-black bg-red-600 text-white px-1.5 py-0.5 rounded border border-white">Lv.{loc.levelReq}</div>}
+                                {!!user.bosses?.[loc.id]?.clears && <div className="absolute -top-2 -right-2 text-[9px] font-black bg-yellow-400 text-black px-1.5 py-0.5 rounded-full border-2 border-black">👑 CLEARED</div>}
                            </div>
                        );
                    })}
@@ -1119,6 +1931,25 @@ export default function App() {
                        )}
                    </svg>
                </div>
+               {location?.boss && (() => {
+                   const boss = location.boss;
+                   const record = user.bosses?.[location.id];
+                   const cooldown = getBossCooldownLeft(record);
+                   return (
+                       <div className="fixed bottom-0 left-0 right-0 z-50 bg-slate-900/95 border-t-4 border-white p-4 flex items-center gap-3 safe-bottom">
+                           <div className="text-3xl">{ELEMENT_THEMES[boss.element]?.icon}</div>
+                           <div className="flex-1 text-white">
+                               <div className="text-[10px] font-black text-gray-400 uppercase">{location.name} Boss {record?.clears ? `· 👑 x${record.clears}` : ''}</div>
+                               <div className="font-black text-lg leading-tight">{boss.name}</div>
+                               <div className="text-[10px] font-bold text-yellow-300">Drops: {ITEMS_DB[boss.drop]?.name} · {boss.phases.length + 1} phases</div>
+                           </div>
+                           <button onClick={() => startBossBattle(location.id)} disabled={cooldown > 0}
+                                className={`pop-btn text-sm px-4 ${cooldown > 0 ? 'bg-gray-500 text-gray-300' : 'bg-red-500 text-white'}`}>
+                               {cooldown > 0 ? `${Math.floor(cooldown / 3600000)}h ${Math.ceil((cooldown % 3600000) / 60000)}m` : 'CHALLENGE'}
+                           </button>
+                       </div>
+                   );
+               })()}
           </div>
       )}
 
@@ -1133,50 +1964,104 @@ export default function App() {
                        <div className="w-3/4 mx-auto mb-6 transform hover:rotate-1 transition-transform">
                            <PixuCard pet={selectedCard} />
                        </div>
+                       {selectedCard.stage !== 'Legend' && (() => {
+                           const path = determineEvolutionPath({ atk: selectedCard.atk, def: selectedCard.def, spd: selectedCard.spd, happiness: selectedCard.happiness ?? 50 });
+                           const growth = getEvolutionGrowth(path);
+                           return (
+                               <div className={`mb-6 neo-pop-box p-3 bg-white border-2 ${path.borderColor}`}>
+                                   <h4 className="font-black text-xs text-gray-500 mb-1 uppercase text-center">Evolution Protocol</h4>
+                                   <div className={`font-black text-center ${path.color}`}>{path.icon} {path.protocolName} {path.alignment !== 'NEUTRAL' ? `· ${path.alignment}` : ''}</div>
+                                   <div className="text-[10px] font-bold text-gray-600 text-center">{path.desc}</div>
+                                   <div className="grid grid-cols-4 gap-1 mt-2 text-[10px] font-black text-center">
+                                       {(['hp', 'atk', 'def', 'spd'] as const).map(stat => (
+                                           <div key={stat} className="bg-gray-100 rounded border border-black py-1">{stat.toUpperCase()} ×{growth[stat].toFixed(2)}</div>
+                                       ))}
+                                   </div>
+                               </div>
+                           );
+                       })()}
                        <div className="mb-6 neo-pop-box p-3 bg-white">
                            <h4 className="font-black text-xs text-gray-500 mb-2 uppercase text-center">Current Loadout</h4>
                            <div className="grid grid-cols-3 gap-3">
                                {['HEAD', 'BODY', 'ACCESSORY'].map(slot => {
                                    const equippedId = selectedCard.equipment?.[slot.toLowerCase() as keyof typeof selectedCard.equipment];
                                    const item = equippedId ? ITEMS_DB[equippedId] : null;
+                                   const gear = getEquippedGear(selectedCard, user.gear).find(g => g.itemId === equippedId && ITEMS_DB[g.itemId]?.slot === slot);
                                    return (
                                        <div key={slot} onClick={() => setShowGearSelect({slot: slot as EquipmentSlot})}
                                             className="aspect-square bg-gray-100 rounded-xl border-2 border-black flex items-center justify-center cursor-pointer hover:bg-blue-100 shadow-[2px_2px_0_#ccc] relative group">
                                            {item ? <div className="w-8 h-8"><ItemIcon item={item} /></div> : <span className="text-[9px] font-black text-gray-400">{slot}</span>}
+                                           {!!gear?.level && <div className="absolute bottom-1 left-1 bg-yellow-300 text-[9px] font-black px-1 rounded border border-black">+{gear.level}</div>}
                                            <div className="absolute -top-2 -right-2 bg-blue-500 text-white text-[10px] w-6 h-6 rounded-full border-2 border-black flex items-center justify-center group-hover:scale-110 transition-transform font-black">+</div>
                                        </div>
                                    );
                                })}
                            </div>
+                           {(() => {
+                               const bonus = getEquipmentBonus(selectedCard, user.gear);
+                               return formatGearBonus(bonus) && (
+                                   <div className="mt-3 text-[10px] font-black text-center">
+                                       <div className="text-gray-500 uppercase">Gear Bonus: {formatGearBonus(bonus)}</div>
+                                       <div>HP {getStat(selectedCard, 'hp')} · ATK {getStat(selectedCard, 'atk')} · DEF {getStat(selectedCard, 'def')} · SPD {getStat(selectedCard, 'spd')}</div>
+                                   </div>
+                               );
+                           })()}
+                       </div>
+                       <div className="mb-6 neo-pop-box p-3 bg-white">
+                           <h4 className="font-black text-xs text-gray-500 mb-2 uppercase text-center">Battle Tactic</h4>
+                           <div className="grid grid-cols-2 gap-2">
+                               {(Object.keys(TACTIC_INFO) as AITactic[]).map(tactic => {
+                                   const info = TACTIC_INFO[tactic];
+                                   const isSet = (selectedCard.tactic || 'BALANCED') === tactic;
+                                   return (
+                                       <button key={tactic} onClick={() => handleSetTactic(selectedCard.id, tactic)}
+                                            className={`rounded-xl border-2 border-black p-2 text-left transition-all ${isSet ? 'bg-yellow-300 shadow-[2px_2px_0_#000]' : 'bg-gray-100 hover:bg-blue-100'}`}>
+                                           <div className="font-black text-xs uppercase">{info.icon} {info.label}</div>
+                                           <div className="text-[9px] font-bold text-gray-600 leading-tight">{info.desc}</div>
+                                       </button>
+                                   );
+                               })}
+                           </div>
                        </div>
                        <div className="flex flex-col gap-3 mt-auto">
                            <button onClick={()=>{ 
-                               const idx = inventory.findIndex(p => p.id === selectedCard.id);
-                               setActivePetIndex(idx);
+                               updateParty([selectedCard.id, ...currentParty.filter(id => id !== selectedCard.id)]);
                                setSelectedCard(null);
                                setGameState('NEXUS');
                                showFloatingText("COMPANION SET!", "text-blue-400");
                            }} className="pop-btn btn-primary w-full">SET ACTIVE</button>
+                           <button onClick={() => togglePartyMember(selectedCard.id)} className="pop-btn bg-white w-full">
+                               {currentParty.includes(selectedCard.id) ? 'REMOVE FROM PARTY' : `ADD TO PARTY (${currentParty.length}/${MAX_PARTY})`}
+                           </button>
                            {(selectedCard.level >= EVO_THRESHOLDS.PRO && selectedCard.stage === 'Noob') || 
                             (selectedCard.level >= EVO_THRESHOLDS.ELITE && selectedCard.stage === 'Pro') ||
                             (selectedCard.level >= EVO_THRESHOLDS.LEGEND && selectedCard.stage === 'Elite') ? (
-                                <button onClick={async () => {
-                                    const evo = await evolveVoxelScene(selectedCard);
+                                <button onClick={() => {
+                                    const path = determineEvolutionPath({ atk: selectedCard.atk, def: selectedCard.def, spd: selectedCard.spd, happiness: selectedCard.happiness ?? 50 });
+                                    const evo = evolveVoxelScene(selectedCard, path);
+                                    const growth = getEvolutionGrowth(path);
                                     const updated = [...inventory];
                                     const idx = inventory.findIndex(p => p.id === selectedCard.id);
+                                    const pet = updated[idx];
+                                    const maxHp = Math.floor((pet.maxHp ?? pet.hp) * growth.hp);
                                     updated[idx] = { 
-                                        ...updated[idx], 
+                                        ...pet, 
                                         stage: evo.nextStage, 
-                                        voxelCode: evo.code, 
+                                        voxelName: pet.voxelName ?? pet.name,
+                                        baseName: evo.baseName,
                                         name: evo.nextName,
-                                        atk: Math.floor(updated[idx].atk * 1.5),
-                                        def: Math.floor(updated[idx].def * 1.5),
-                                        hp: Math.floor(updated[idx].hp * 1.5),
-                                        maxHp: Math.floor(updated[idx].maxHp! * 1.5)
+                                        visualTraits: evo.visualTraits,
+                                        evolutionPath: { dominant: path.dominant, alignment: path.alignment },
+                                        atk: Math.floor(pet.atk * growth.atk),
+                                        def: Math.floor(pet.def * growth.def),
+                                        spd: Math.floor(pet.spd * growth.spd),
+                                        hp: Math.floor(pet.hp * growth.hp),
+                                        maxHp,
+                                        currentHp: maxHp
                                     };
                                     setInventory(updated);
-                                    setSelectedCard(updated[idx]);
-                                    alert(`${selectedCard.name} GLOW UP SUCCESSFUL!`);
+                                    setSelectedCard(null);
+                                    setEvolutionScene({ before: selectedCard, after: updated[idx], phase: 'CHARGE' });
                                 }} className="pop-btn btn-warning w-full animate-pulse shadow-[0_0_15px_gold] border-yellow-600">🧬 EVOLVE!</button>
                             ) : null}
                        </div>
@@ -1185,17 +2070,56 @@ export default function App() {
           </div>
       )}
 
+      {evolutionScene && (() => {
+          const { before, after, phase } = evolutionScene;
+          const path = after.evolutionPath && determineEvolutionPath({ atk: before.atk, def: before.def, spd: before.spd, happiness: before.happiness ?? 50 });
+          return (
+              <div className="absolute inset-0 z-[70] bg-black flex flex-col items-center justify-center p-4">
+                  <div className="w-full max-w-sm h-[50vh] relative rounded-2xl overflow-hidden border-4 border-white">
+                      <VoxelViewer code={getPetVoxel(phase === 'CHARGE' ? before : after)} evolution={phase === 'DONE' ? 'SKIP' : phase} onEvolutionDone={advanceEvolution} />
+                  </div>
+                  {phase !== 'DONE' ? (
+                      <div className="mt-6 flex flex-col items-center gap-4">
+                          <div className="text-white font-black text-xl text-center animate-pulse">{phase === 'CHARGE' ? `${before.name} is evolving...` : `${after.name}!`}</div>
+                          <button onClick={() => setEvolutionScene({ ...evolutionScene, phase: 'DONE' })} className="pop-btn bg-white text-sm px-6">SKIP ⏭</button>
+                      </div>
+                  ) : (
+                      <div className="mt-4 w-full max-w-sm neo-pop-box bg-white p-4 pop-in">
+                          <div className="text-[10px] font-black text-gray-500 uppercase text-center">{before.stage} → {after.stage}</div>
+                          <div className="font-black text-2xl text-center leading-tight">{after.name}</div>
+                          {path && <div className={`font-black text-xs text-center mb-3 ${path.color}`}>{path.icon} {path.protocolName} {path.alignment !== 'NEUTRAL' ? `· ${path.alignment}` : ''}</div>}
+                          <div className="grid grid-cols-4 gap-2 text-center mb-4">
+                              {([['HP', before.maxHp ?? before.hp, after.maxHp ?? after.hp], ['ATK', before.atk, after.atk], ['DEF', before.def, after.def], ['SPD', before.spd, after.spd]] as const).map(([label, from, to]) => (
+                                  <div key={label} className="bg-gray-100 rounded-xl border-2 border-black py-1">
+                                      <div className="text-[10px] font-black text-gray-500">{label}</div>
+                                      <div className="text-xs font-bold text-gray-400 line-through">{from}</div>
+                                      <div className="font-black text-green-600">{to}</div>
+                                  </div>
+                              ))}
+                          </div>
+                          <button onClick={closeEvolution} className="pop-btn btn-primary w-full">GLOW UP COMPLETE!</button>
+                      </div>
+                  )}
+              </div>
+          );
+      })()}
+
       {showGearSelect && selectedCard && (
           <div className="absolute inset-0 z-[60] bg-black/90 flex items-center justify-center p-4">
               <div className="bg-white w-full max-w-sm rounded-2xl p-5 border-4 border-black shadow-2xl pop-in">
                   <h3 className="font-black mb-4 text-lg uppercase border-b-4 border-black pb-2">Equip {showGearSelect.slot}</h3>
-                  <div className="grid grid-cols-4 gap-3 max-h-[50vh] overflow-y-auto p-2">
-                      {user.inventory.filter(id => ITEMS_DB[id].type === 'Gear' && ITEMS_DB[id].slot === showGearSelect.slot).map((id, i) => {
-                          const item = ITEMS_DB[id];
+                  <div className="flex flex-col gap-2 max-h-[50vh] overflow-y-auto p-2">
+                      {(user.gear || []).filter(g => ITEMS_DB[g.itemId]?.slot === showGearSelect.slot && !getWornGear(selectedCard.id).includes(g.uid)).map(gear => {
+                          const item = ITEMS_DB[gear.itemId];
+                          const worn = Object.values(selectedCard.gearRefs || {}).includes(gear.uid);
                           return (
-                            <div key={i} onClick={() => { handleEquip(showGearSelect.slot, id); }} 
-                               className="aspect-square border-2 border-black hover:bg-blue-100 cursor-pointer rounded-xl flex flex-col items-center justify-center shadow-[3px_3px_0_#999] active:translate-y-1 active:shadow-none transition-all">
+                            <div key={gear.uid} onClick={() => { handleEquip(selectedCard.id, showGearSelect.slot, gear); }} 
+                               className={`border-2 border-black hover:bg-blue-100 cursor-pointer rounded-xl flex items-center gap-3 p-2 shadow-[3px_3px_0_#999] active:translate-y-1 active:shadow-none transition-all ${worn ? 'bg-yellow-100' : ''}`}>
                               <div className="w-8 h-8"><ItemIcon item={item} /></div>
+                              <div className="flex-1 text-left">
+                                  <div className="font-black text-xs">{getGearName(gear)} {worn && <span className="text-[9px] text-gray-500">(WORN)</span>}</div>
+                                  <div className="text-[10px] font-bold text-gray-500">{formatGearBonus(getGearBonus(gear))}</div>
+                              </div>
                             </div>
                           );
                       })}
@@ -1210,39 +2134,106 @@ export default function App() {
                <div className="w-full max-w-md bg-white rounded-2xl overflow-hidden border-4 border-black shadow-2xl flex flex-col h-[70vh] pop-in">
                    <div className="bg-green-400 p-4 border-b-4 border-black flex justify-between items-center">
                        <h2 className="font-black text-xl text-white drop-shadow-md flex items-center gap-2"><IconBag /> BACKPACK</h2>
-                       <button onClick={()=>setItemsOpen(false)} className="font-black text-xl w-8 h-8 hover:bg-green-500 rounded text-white">✕</button>
+                       <div className="flex items-center gap-2">
+                           <button onClick={()=>setForgeOpen(true)} className="text-[10px] font-black bg-orange-300 border-2 border-black rounded px-2 py-1 shadow-[2px_2px_0_black] hover:bg-orange-400">🔨 FORGE</button>
+                           <button onClick={()=>setItemsOpen(false)} className="font-black text-xl w-8 h-8 hover:bg-green-500 rounded text-white">✕</button>
+                       </div>
                    </div>
                    <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3 bg-green-50">
-                       {user.inventory.length === 0 ? (
+                       {user.inventory.length === 0 && !user.gear?.length ? (
                            <div className="text-center text-gray-500 font-bold mt-10">Your bag is empty!</div>
-                       ) : (
-                           user.inventory.map((id, i) => {
+                       ) : (<>
+                           {(user.gear || []).map(gear => {
+                               const item = ITEMS_DB[gear.itemId];
+                               const wornBy = inventory.find(p => Object.values(p.gearRefs || {}).includes(gear.uid));
+                               return (
+                                 <div key={gear.uid} onClick={() => setEnhanceUid(gear.uid)} className="bg-white rounded-xl border-3 border-black flex items-center p-3 relative group shadow-[3px_3px_0_#ccc] hover:-translate-y-1 hover:shadow-[4px_4px_0_#999] transition-all cursor-pointer">
+                                     <div className="w-12 h-12 mr-4"><ItemIcon item={item} /></div>
+                                     <div className="flex-1">
+                                        <div className="font-black text-base">{getGearName(gear)}</div>
+                                        <div className="text-xs font-bold text-gray-500">{formatGearBonus(getGearBonus(gear))}{wornBy ? ` · Worn by ${wornBy.name}` : ''}</div>
+                                     </div>
+                                     <div className={`text-[9px] font-black px-2 py-1 rounded border border-black uppercase ${RARITY_BADGES[item.rarity]}`}>
+                                         {item.rarity}
+                                     </div>
+                                 </div>
+                               );
+                           })}
+                           {user.inventory.map((id, i) => {
                                const item = ITEMS_DB[id];
                                return (
                                  <div key={i} onClick={() => setConfirmItem(item)} className="bg-white rounded-xl border-3 border-black flex items-center p-3 relative group shadow-[3px_3px_0_#ccc] hover:-translate-y-1 hover:shadow-[4px_4px_0_#999] transition-all cursor-pointer">
                                      <div className="w-12 h-12 mr-4"><ItemIcon item={item} /></div>
                                      <div className="flex-1">
                                         <div className="font-black text-base">{item.name}</div>
-                                        <div className="text-xs font-bold text-gray-500">{item.description}</div>
+                                        <div className="text-xs font-bold text-gray-500">{getItemDescription(item)}</div>
                                      </div>
                                      <div className={`text-[9px] font-black px-2 py-1 rounded border border-black uppercase ${item.rarity === 'Legendary' ? 'bg-yellow-300' : item.rarity === 'Epic' ? 'bg-purple-300' : item.rarity === 'Rare' ? 'bg-blue-300' : 'bg-gray-200'}`}>
                                          {item.rarity}
                                      </div>
                                  </div>
                                );
-                           })
-                       )}
+                           })}
+                       </>)}
                    </div>
                </div>
           </div>
       )}
 
+      {enhanceUid && itemsOpen && (() => {
+          const gear = user.gear?.find(g => g.uid === enhanceUid);
+          if (!gear) return null;
+          const item = ITEMS_DB[gear.itemId];
+          const cost = getEnhanceCost(gear);
+          const counts = getCraftCounts();
+          const ready = !!cost && user.coins >= cost.coins && Object.entries(cost.chips).every(([id, n]) => (counts[id] || 0) >= n);
+          return (
+          <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-6">
+              <div className="bg-white w-full max-w-sm rounded-2xl p-6 border-4 border-black shadow-xl pop-in text-center">
+                  <h3 className="text-xl font-black mb-2">{getGearName(gear)}</h3>
+                  <div className="w-20 h-20 mx-auto mb-3"><ItemIcon item={item} /></div>
+                  <div className="text-sm font-black mb-1">{formatGearBonus(getGearBonus(gear))}</div>
+                  {gear.affixes.length > 0 && (
+                      <div className="text-[10px] font-bold text-purple-600 mb-1">Affixes: {gear.affixes.map(a => `+${a.value} ${a.stat.toUpperCase()}`).join(' · ')}</div>
+                  )}
+                  <p className="text-xs font-bold text-gray-500 mb-4">{item.description}</p>
+                  {cost ? (
+                      <div className="neo-pop-box bg-yellow-50 p-3 mb-4 text-left">
+                          <div className="flex justify-between text-xs font-black uppercase mb-2">
+                              <span>Enhance to +{gear.level + 1}</span>
+                              <span className={cost.chance < 0.6 ? 'text-red-500' : 'text-green-600'}>{Math.round(cost.chance * 100)}% success</span>
+                          </div>
+                          <div className="text-[10px] font-bold text-gray-600 mb-2">Next: {formatGearBonus(getGearBonus({ ...gear, level: gear.level + 1 }))}</div>
+                          <div className="flex flex-wrap gap-1">
+                              {Object.entries(cost.chips).map(([id, need]) => (
+                                  <span key={id} className={`text-[10px] font-black px-2 py-0.5 rounded border border-black ${(counts[id] || 0) >= need ? 'bg-green-200' : 'bg-red-200'}`}>
+                                      {ITEMS_DB[id].name} {Math.min(counts[id] || 0, need)}/{need}
+                                  </span>
+                              ))}
+                              <span className={`text-[10px] font-black px-2 py-0.5 rounded border border-black ${user.coins >= cost.coins ? 'bg-yellow-200' : 'bg-red-200'}`}>{cost.coins} G</span>
+                          </div>
+                          {gear.level > ENHANCE_SAFE_LEVEL && <div className="text-[9px] font-black text-red-500 uppercase mt-2">Failure drops one level</div>}
+                      </div>
+                  ) : (
+                      <div className="text-xs font-black text-yellow-600 uppercase mb-4">Max Enhance +{MAX_ENHANCE}</div>
+                  )}
+                  <div className="flex gap-4">
+                      <button onClick={() => setEnhanceUid(null)} className="flex-1 bg-gray-200 py-3 rounded-xl border-3 border-black font-black">CLOSE</button>
+                      {cost && (
+                          <button onClick={() => handleEnhance(gear)} disabled={!ready} className={`flex-1 py-3 rounded-xl border-3 border-black font-black ${ready ? 'bg-yellow-300 hover:bg-yellow-400 shadow-[2px_2px_0_black]' : 'bg-gray-200 text-gray-400'}`}>ENHANCE</button>
+                      )}
+                  </div>
+              </div>
+          </div>
+          );
+      })()}
+
       {confirmItem && itemsOpen && (
           <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-6">
               <div className="bg-white w-full max-w-sm rounded-2xl p-6 border-4 border-black shadow-xl pop-in text-center">
                   <h3 className="text-xl font-black mb-2">Use {confirmItem.name}?</h3>
                   <div className="w-20 h-20 mx-auto mb-4"><ItemIcon item={confirmItem} /></div>
-                  <p className="text-sm font-bold text-gray-600 mb-6">{confirmItem.description}</p>
+                  <p className="text-sm font-bold text-gray-600 mb-6">{getItemDescription(confirmItem)}</p>
                   <div className="flex gap-4">
                       <button onClick={() => setConfirmItem(null)} className="flex-1 bg-gray-200 py-3 rounded-xl border-3 border-black font-black">CANCEL</button>
                       <button onClick={() => {
@@ -1254,6 +2245,134 @@ export default function App() {
           </div>
       )}
 
+      {forgeOpen && itemsOpen && (() => {
+          const counts = getCraftCounts();
+          return (
+          <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+              <div className="bg-white w-full max-w-md rounded-2xl border-4 border-black shadow-xl pop-in flex flex-col max-h-[85vh]">
+                  <div className="bg-orange-400 p-4 border-b-4 border-black flex justify-between items-center">
+                      <h3 className="text-xl font-black uppercase text-white drop-shadow-md">🔨 Forge</h3>
+                      <button onClick={() => setForgeOpen(false)} className="text-2xl font-black text-white hover:text-black">✕</button>
+                  </div>
+                  <div className="overflow-y-auto p-4 flex flex-col gap-3 bg-orange-50">
+                      {RECIPES_DB.map(recipe => {
+                          const output = ITEMS_DB[recipe.output];
+                          const unlocked = isRecipeUnlocked(recipe, user.bosses);
+                          const ready = unlocked && canCraft(recipe, counts, user.coins);
+                          return (
+                              <div key={recipe.id} className={`neo-pop-box bg-white p-3 flex flex-col gap-2 ${unlocked ? '' : 'opacity-60'}`}>
+                                  <div className="flex items-center gap-3">
+                                      <div className="w-10 h-10"><ItemIcon item={output} /></div>
+                                      <div className="flex-1">
+                                          <div className="font-black text-sm">{output.name}</div>
+                                          <div className="text-[10px] font-bold text-gray-500">{getItemDescription(output)}</div>
+                                      </div>
+                                      <div className={`text-[9px] font-black px-2 py-1 rounded border border-black uppercase ${RARITY_BADGES[output.rarity]}`}>{output.rarity}</div>
+                                  </div>
+                                  {unlocked ? (
+                                      <>
+                                          <div className="flex flex-wrap gap-1">
+                                              {Object.entries(recipe.inputs).map(([id, need]) => (
+                                                  <span key={id} className={`text-[10px] font-black px-2 py-0.5 rounded border border-black ${(counts[id] || 0) >= need ? 'bg-green-200' : 'bg-red-200'}`}>
+                                                      {ITEMS_DB[id].name} {Math.min(counts[id] || 0, need)}/{need}
+                                                  </span>
+                                              ))}
+                                              {recipe.coins > 0 && (
+                                                  <span className={`text-[10px] font-black px-2 py-0.5 rounded border border-black ${user.coins >= recipe.coins ? 'bg-yellow-200' : 'bg-red-200'}`}>{recipe.coins} G</span>
+                                              )}
+                                          </div>
+                                          <button onClick={() => handleCraft(recipe)} disabled={!ready} className={`w-full py-2 rounded-xl border-3 border-black font-black text-sm ${ready ? 'bg-orange-400 hover:bg-orange-500 shadow-[2px_2px_0_black]' : 'bg-gray-200 text-gray-400'}`}>CRAFT</button>
+                                      </>
+                                  ) : (
+                                      <div className="text-[10px] font-black text-gray-500 uppercase">🔒 {getUnlockHint(recipe)}</div>
+                                  )}
+                              </div>
+                          );
+                      })}
+                  </div>
+              </div>
+          </div>
+          );
+      })()}
+
+      {oddsOpen && (
+          <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+              <div className="bg-white w-full max-w-md rounded-2xl border-4 border-black shadow-xl pop-in flex flex-col max-h-[85vh]">
+                  <div className="p-4 border-b-4 border-black flex justify-between items-center">
+                      <h3 className="text-xl font-black uppercase">Drop Odds</h3>
+                      <button onClick={() => setOddsOpen(false)} className="text-2xl font-black hover:text-red-500">✕</button>
+                  </div>
+                  <div className="overflow-y-auto p-4 flex flex-col gap-4">
+                      {[getMysteryBoxTable(), getZoneLootTable(user.currentLocation, 'DROP'), getZoneLootTable(user.currentLocation, 'STASH')].map(table => (
+                          <div key={table.id} className="neo-pop-box bg-white p-3">
+                              <h4 className="font-black text-sm uppercase mb-2">{table.label}</h4>
+                              {getLootOdds(table).map(tier => (
+                                  <div key={tier.rarity} className="mb-2">
+                                      <div className={`flex justify-between text-[10px] font-black uppercase px-2 py-1 rounded border border-black ${RARITY_BADGES[tier.rarity]}`}>
+                                          <span>{tier.rarity}</span><span>{(tier.chance * 100).toFixed(1)}%</span>
+                                      </div>
+                                      {tier.items.map(entry => (
+                                          <div key={entry.id} className="flex justify-between text-xs font-bold text-gray-600 px-2">
+                                              <span>{ITEMS_DB[entry.id].name}</span><span>{(entry.chance * 100).toFixed(2)}%</span>
+                                          </div>
+                                      ))}
+                                  </div>
+                              ))}
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {lootReveal && (() => {
+          const prize = ITEMS_DB[lootReveal.itemId];
+          return (
+              <div className="absolute inset-0 z-[80] bg-black/90 flex flex-col items-center justify-center p-6">
+                  {!lootReveal.opened ? (
+                      <div className="flex flex-col items-center gap-6">
+                          <div className="w-32 h-32 box-shake"><ItemIcon item={ITEMS_DB[lootReveal.boxId]} /></div>
+                          <div className="text-white font-black text-xl animate-pulse">Opening...</div>
+                      </div>
+                  ) : (
+                      <div className="flex flex-col items-center gap-4">
+                          <div className="relative w-40 h-40 flex items-center justify-center">
+                              <div className={`absolute inset-0 rounded-full animate-ping opacity-60 ${RARITY_BADGES[prize.rarity]}`} />
+                              <div className={`absolute inset-4 rounded-full border-4 border-black ${RARITY_BADGES[prize.rarity]}`} />
+                              <div className="relative w-20 h-20 pop-in"><ItemIcon item={prize} /></div>
+                          </div>
+                          <div className={`text-[10px] font-black px-2 py-1 rounded border border-black uppercase ${RARITY_BADGES[prize.rarity]}`}>{prize.rarity}</div>
+                          <div className="text-white font-black text-2xl text-center">{prize.name}</div>
+                          <div className="text-gray-300 font-bold text-sm text-center max-w-xs">{getItemDescription(prize)}</div>
+                          <button onClick={() => setLootReveal(null)} className="pop-btn btn-primary px-8">COLLECT</button>
+                      </div>
+                  )}
+              </div>
+          );
+      })()}
+
+      {offlineReport && gameState === 'NEXUS' && (
+          <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-6">
+              <div className="bg-white w-full max-w-sm rounded-2xl p-6 border-4 border-black shadow-xl pop-in text-center">
+                  <h3 className="text-xl font-black mb-1">While you were away...</h3>
+                  <p className="text-xs font-bold text-gray-500 mb-4">
+                      {formatPlayTime(offlineReport.secondsAway * 1000)} away
+                      {offlineReport.capped && ` · rewards capped at ${OFFLINE_CAP_SECONDS / 3600}h`}
+                  </p>
+                  <div className="text-left text-sm font-bold text-gray-700 mb-4 flex flex-col gap-1">
+                      {offlineReport.events.map((e, i) => <div key={i}>• {e}</div>)}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mb-6 text-xs font-black">
+                      <div className="bg-yellow-100 rounded-lg border-2 border-black py-2">+{offlineReport.xpGained} XP</div>
+                      <div className="bg-yellow-100 rounded-lg border-2 border-black py-2">+{offlineReport.coinsFound} G</div>
+                      <div className="bg-red-100 rounded-lg border-2 border-black py-2">-{offlineReport.hpLost} HP</div>
+                      <div className="bg-red-100 rounded-lg border-2 border-black py-2">-{offlineReport.hungerLost} Hunger</div>
+                  </div>
+                  <button onClick={claimOfflineReport} className="w-full bg-green-400 py-3 rounded-xl border-3 border-black font-black hover:bg-green-500 shadow-[2px_2px_0_black]">CLAIM</button>
+              </div>
+          </div>
+      )}
+
       {showScan && (
           <div className="absolute inset-0 z-50 bg-black flex flex-col">
               <div className="flex-1 relative bg-gray-900 flex items-center justify-center overflow-hidden">
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * IndexedDB home for the large per-pet strings (photos, card art)
+ * so the localStorage save only carries small gameplay records.
+ */
+
+const DB_NAME = 'pixupet_assets';
+const DB_VERSION = 1;
+const STORE = 'pets'; // Out-of-line keys: pet id -> PetAssets
+
+export const HEAVY_PET_FIELDS = ['imageSource', 'cardArtUrl'] as const;
+export type HeavyPetField = typeof HEAVY_PET_FIELDS[number];
+export type PetAssets = Partial<Record<HeavyPetField, string>>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const done = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+// Private browsing and some embedded webviews have no usable IndexedDB.
+export const isAssetStoreAvailable = async (): Promise<boolean> => {
+    if (typeof indexedDB === 'undefined') return false;
+    try {
+        await openDb();
+        return true;
+    } catch (e) {
+        console.warn("IndexedDB unavailable, keeping assets in the save", e);
+        return false;
+    }
+};
+
+export const loadAllAssets = async (): Promise<Record<string, PetAssets>> => {
+    const db = await openDb();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const [keys, values] = await Promise.all([done(store.getAllKeys()), done(store.getAll())]);
+    const result: Record<string, PetAssets> = {};
+    keys.forEach((key, i) => { result[String(key)] = values[i]; });
+    return result;
+};
+
+/**
+ * Writes changed records and deletes removed ones in a single transaction.
+ */
+export const saveAssets = async (changed: Record<string, PetAssets>, removed: string[]): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    Object.entries(changed).forEach(([id, assets]) => store.put(assets, id));
+    removed.forEach(id => store.delete(id));
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Move, AITactic, BossPhase, getTypeMultiplier } from './gameData';
+import { StatusEffect, STATUS_DB, applyStatus, hasStatus, tickStatuses, getStatusMods } from './status';
+import { Rng, createRng, newSeed } from './rng';
+
+export interface Combatant {
+    name: string;
+    element: string;
+    hp: number;
+    maxHp: number;
+    atk: number;
+    def: number;
+    spd: number;
+    moves: Move[];
+    tactic?: AITactic;
+    statuses?: StatusEffect[];
+    phases?: BossPhase[];
+}
+
+export interface BattleResult {
+    win: boolean;
+    combatLogs: string[];
+    playerHp: number;
+    enemyHp: number;
+    playerStatuses: StatusEffect[]; // Carried back onto the pet after the fight
+    seed: number; // Replaying the same inputs with this seed gives an identical log
+}
+
+export interface TeamBattleResult {
+    win: boolean;
+    combatLogs: string[];
+    activeAt: [number, number][]; // Player/enemy team slots on the field for each log line
+    playerHps: number[];
+    enemyHps: number[];
+    playerStatuses: StatusEffect[][];
+    participants: number[]; // Player team slots that took the field
+    seed: number;
+}
+
+const MAX_ROUNDS = 8;
+const CRIT_CHANCE = 0.0625;
+const CRIT_MULT = 1.5;
+const STAB_MULT = 1.2; // Same-type attack bonus
+const SPEEDSTER_INITIATIVE = 1.25; // Effective SPD multiplier for turn order
+const GUARD_MULT = 0.5;
+const REPAIR_RATIO = 0.25;
+const REPAIR_USES = 1;
+const LOW_HP_RATIO = 0.35;
+
+// Per-fight state that never leaves the engine.
+interface Fighter extends Combatant {
+    guarding: boolean;
+    repairsLeft: number;
+    statuses: StatusEffect[];
+    phase: number; // Boss phases already triggered
+}
+
+export type BattleAction =
+    | { kind: 'MOVE'; move: Move }
+    | { kind: 'GUARD' }
+    | { kind: 'REPAIR' };
+
+// Expected damage value of a move against a given target, before defense.
+const scoreMove = (user: Combatant, target: Combatant, move: Move): number => {
+    const stab = move.type === user.element ? STAB_MULT : 1;
+    return move.power * (move.accuracy / 100) * stab * getTypeMultiplier(move.type, target.element);
+};
+
+// How much each tactic cares about a move beyond its expected damage.
+const tacticWeight = (tactic: AITactic, move: Move): number => {
+    if (tactic === 'AGGRESSIVE') return move.power / 40;
+    if (tactic === 'SPEEDSTER') return Math.pow(move.accuracy / 100, 3);
+    return 1;
+};
+
+/**
+ * Weighted pick: moves with better expected damage are chosen more often,
+ * but weaker ones still show up so fights don't look scripted.
+ */
+export const chooseMove = (user: Combatant, target: Combatant, rng: Rng): Move => {
+    const tactic = user.tactic || 'BALANCED';
+    const scores = user.moves.map(m => scoreMove(user, target, m) * tacticWeight(tactic, m));
+    const total = scores.reduce((a, b) => a + b, 0);
+    let roll = rng.next() * total;
+    for (let i = 0; i < user.moves.length; i++) {
+        roll -= scores[i];
+        if (roll <= 0) return user.moves[i];
+    }
+    return user.moves[user.moves.length - 1];
+};
+
+/**
+ * Tactics AI. DEFENSIVE fighters repair or brace when low on HP,
+ * everyone else always attacks with a tactic-weighted move.
+ */
+const chooseAction = (user: Fighter, target: Fighter, rng: Rng): BattleAction => {
+    if (user.tactic === 'DEFENSIVE' && user.hp / user.maxHp < LOW_HP_RATIO) {
+        if (user.repairsLeft > 0) return { kind: 'REPAIR' };
+        if (!user.guarding && rng.chance(0.5)) return { kind: 'GUARD' };
+    }
+    return { kind: 'MOVE', move: chooseMove(user, target, rng) };
+};
+
+const initiative = (c: Fighter): number => {
+    const spd = c.spd * getStatusMods(c.statuses).spd;
+    return c.tactic === 'SPEEDSTER' ? spd * SPEEDSTER_INITIATIVE : spd;
+};
+
+const performAttack = (attacker: Fighter, defender: Fighter, move: Move, logs: string[], rng: Rng) => {
+    if (rng.next() * 100 >= move.accuracy) {
+        logs.push(`> ${attacker.name} used ${move.name}... MISSED!`);
+        return;
+    }
+    const stab = move.type === attacker.element ? STAB_MULT : 1;
+    const effectiveness = getTypeMultiplier(move.type, defender.element);
+    const crit = rng.chance(CRIT_CHANCE);
+    const variance = rng.next() * 0.15 + 0.85;
+    const guard = defender.guarding ? GUARD_MULT : 1;
+    const def = defender.def * getStatusMods(defender.statuses).def;
+    const raw = attacker.atk * (move.power / 50) * (100 / (100 + def));
+    const dmg = Math.max(1, Math.floor(raw * stab * effectiveness * variance * guard * (crit ? CRIT_MULT : 1)));
+    defender.hp -= dmg;
+    defender.guarding = false;
+    logs.push(`> ${attacker.name} used ${move.name} for ${dmg} DMG!`);
+    if (crit) logs.push("> CRITICAL HIT!");
+    if (effectiveness > 1) logs.push("> It's SUPER EFFECTIVE!");
+    else if (effectiveness < 1) logs.push("> It was resisted...");
+    if (guard < 1) logs.push(`> ${defender.name}'s guard absorbed the blow.`);
+    if (move.inflicts && defender.hp > 0 && rng.chance(move.inflicts.chance)) {
+        const status = STATUS_DB[move.inflicts.status];
+        defender.statuses = applyStatus(defender.statuses, move.inflicts.status);
+        logs.push(`> ${defender.name} is afflicted: ${status.icon} ${status.label}!`);
+    }
+};
+
+// Triggers every boss phase whose HP threshold has been crossed, in order.
+const checkPhases = (f: Fighter, logs: string[]) => {
+    const phases = f.phases || [];
+    while (f.hp > 0 && f.phase < phases.length && f.hp / f.maxHp <= phases[f.phase].hpRatio) {
+        const p = phases[f.phase++];
+        f.atk = Math.floor(f.atk * (p.atkMult ?? 1));
+        f.def = Math.floor(f.def * (p.defMult ?? 1));
+        f.spd = Math.floor(f.spd * (p.spdMult ?? 1));
+        if (p.tactic) f.tactic = p.tactic;
+        logs.push(`> ${f.name} shifts into ${p.label.toUpperCase()}!`);
+    }
+};
+
+const takeTurn = (actor: Fighter, target: Fighter, logs: string[], rng: Rng) => {
+    if (hasStatus(actor.statuses, 'STUN')) {
+        logs.push(`> ${actor.name} is stunned and can't move!`);
+    } else {
+        const action = chooseAction(actor, target, rng);
+        if (action.kind === 'REPAIR') {
+            const heal = Math.floor(actor.maxHp * REPAIR_RATIO);
+            actor.hp = Math.min(actor.maxHp, actor.hp + heal);
+            actor.repairsLeft--;
+            logs.push(`> ${actor.name} ran a self-repair! +${heal} HP`);
+        } else if (action.kind === 'GUARD') {
+            actor.guarding = true;
+            logs.push(`> ${actor.name} is bracing for impact!`);
+        } else {
+            performAttack(actor, target, action.move, logs, rng);
+        }
+    }
+
+    // Ailments tick at the end of the afflicted fighter's own turn.
+    const tick = tickStatuses(actor.statuses, actor.maxHp);
+    actor.statuses = tick.statuses;
+    actor.hp -= tick.damage;
+    tick.logs.forEach(l => logs.push(`> ${actor.name}: ${l}`));
+
+    checkPhases(actor, logs);
+    checkPhases(target, logs);
+};
+
+const toFighter = (c: Combatant): Fighter => ({ ...c, guarding: false, repairsLeft: REPAIR_USES, statuses: c.statuses || [], phase: 0 });
+
+const teamHpRatio = (team: Fighter[]): number => {
+    const hp = team.reduce((sum, f) => sum + Math.max(0, f.hp), 0);
+    return hp / team.reduce((sum, f) => sum + f.maxHp, 0);
+};
+
+/**
+ * Resolves a fight between two teams fighting one-on-one in lead order.
+ * When a fighter faints the next one in its team switches in.
+ * The faster side acts first each round (ties go to the player).
+ * Inputs are copied, so callers keep their original HP values.
+ * All rolls come from a stream seeded with `seed`, making the log reproducible.
+ */
+export const resolveTeamBattle = (playersIn: Combatant[], enemiesIn: Combatant[], seed: number = newSeed()): TeamBattleResult => {
+    const rng = createRng(seed);
+    const players = playersIn.map(toFighter);
+    const enemies = enemiesIn.map(toFighter);
+    const logs: string[] = [];
+    const activeAt: [number, number][] = [];
+    const participants = [0];
+    let pi = 0, ei = 0;
+
+    const sync = () => { while (activeAt.length < logs.length) activeAt.push([pi, ei]); };
+    const finish = (win: boolean): TeamBattleResult => {
+        sync();
+        return {
+            win, combatLogs: logs, activeAt,
+            playerHps: players.map(f => Math.max(0, f.hp)),
+            enemyHps: enemies.map(f => Math.max(0, f.hp)),
+            playerStatuses: players.map(f => f.statuses),
+            participants,
+            seed
+        };
+    };
+
+    const maxRounds = MAX_ROUNDS * Math.max(players.length, enemies.length);
+    for (let r = 1; r <= maxRounds; r++) {
+        const player = players[pi];
+        const enemy = enemies[ei];
+        // Re-rolled each round so a mid-fight Slow can flip the turn order.
+        const order = initiative(player) >= initiative(enemy) ? [player, enemy] : [enemy, player];
+        if (r === 1 && order[0] === enemy) logs.push(`> ${enemy.name} is faster!`);
+        for (const actor of order) {
+            const target = actor === player ? enemy : player;
+            takeTurn(actor, target, logs, rng);
+            sync();
+            const enemyDown = enemy.hp <= 0;
+            const playerDown = player.hp <= 0;
+            if (enemyDown) {
+                if (++ei >= enemies.length) { logs.push(enemies.length > 1 ? "> Enemy team WIPED OUT!" : "> Enemy DESTROYED!"); return finish(true); }
+                logs.push(`> ${enemy.name} is down! ${enemies[ei].name} steps in!`);
+            }
+            if (playerDown) {
+                if (++pi >= players.length) { logs.push("> Critical Failure!"); return finish(false); }
+                participants.push(pi);
+                logs.push(`> ${player.name} fainted! Go, ${players[pi].name}!`);
+            }
+            if (enemyDown || playerDown) { sync(); break; }
+        }
+    }
+
+    const win = teamHpRatio(players) >= teamHpRatio(enemies);
+    logs.push(win ? "> Enemy retreated! YOU WIN." : "> Tactical retreat. DRAW.");
+    return finish(win);
+};
+
+/**
+ * One-on-one shorthand for `resolveTeamBattle`.
+ */
+export const resolveBattle = (player: Combatant, enemy: Combatant, seed: number = newSeed()): BattleResult => {
+    const result = resolveTeamBattle([player], [enemy], seed);
+    return {
+        win: result.win, combatLogs: result.combatLogs,
+        playerHp: result.playerHps[0], enemyHp: result.enemyHps[0],
+        playerStatuses: result.playerStatuses[0],
+        seed
+    };
+};
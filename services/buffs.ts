@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type BuffId = 'OVERCLOCK' | 'HARDENED' | 'STATIC';
+export type BuffStat = 'atk' | 'def' | 'spd' | 'hp';
+
+/**
+ * A timed stat modifier on a pet. Lasts for a number of battles, a number of
+ * minutes, or both (whichever runs out first).
+ */
+export interface Buff {
+    id: BuffId;
+    stacks: number;
+    battles?: number;   // Battles left
+    expiresAt?: number; // Epoch ms
+}
+
+interface BuffDef {
+    label: string;
+    icon: string;
+    color: string;
+    stats: Partial<Record<BuffStat, number>>; // Flat, per stack; negative for debuffs
+    battles?: number;
+    minutes?: number;
+    maxStacks: number;
+    // Same rules as status effects: REFRESH resets the timer, STACK also adds a stack, IGNORE keeps the running buff.
+    rule: 'REFRESH' | 'STACK' | 'IGNORE';
+    desc: string;
+}
+
+export const BUFF_DB: Record<BuffId, BuffDef> = {
+    OVERCLOCK: { label: 'Overclock', icon: '🔴', color: 'bg-red-400', stats: { atk: 5 }, battles: 3, maxStacks: 3, rule: 'STACK', desc: '+5 ATK per stack.' },
+    HARDENED: { label: 'Hardened', icon: '🔷', color: 'bg-sky-300', stats: { def: 6 }, minutes: 20, maxStacks: 1, rule: 'REFRESH', desc: '+6 DEF.' },
+    STATIC: { label: 'Static', icon: '⚡', color: 'bg-gray-400', stats: { spd: -4 }, minutes: 10, maxStacks: 1, rule: 'REFRESH', desc: '-4 SPD.' }
+};
+
+const isActive = (buff: Buff, now: number) => (buff.battles === undefined || buff.battles > 0) && (buff.expiresAt === undefined || buff.expiresAt > now);
+
+export const getActiveBuffs = (list: Buff[] | undefined, now: number = Date.now()): Buff[] => {
+    return (list || []).filter(b => isActive(b, now));
+};
+
+/**
+ * Adds a buff following its stack rule. Never mutates the input list.
+ */
+export const applyBuff = (list: Buff[] | undefined, id: BuffId, now: number = Date.now()): Buff[] => {
+    const def = BUFF_DB[id];
+    const current = getActiveBuffs(list, now);
+    const fresh: Buff = {
+        id, stacks: 1,
+        battles: def.battles,
+        expiresAt: def.minutes !== undefined ? now + def.minutes * 60000 : undefined
+    };
+    const existing = current.find(b => b.id === id);
+    if (!existing) return [...current, fresh];
+    if (def.rule === 'IGNORE') return current;
+    return current.map(b => b.id !== id ? b : {
+        ...fresh,
+        stacks: def.rule === 'STACK' ? Math.min(def.maxStacks, b.stacks + 1) : b.stacks
+    });
+};
+
+export const getBuffBonus = (list: Buff[] | undefined, stat: BuffStat, now: number = Date.now()): number => {
+    return getActiveBuffs(list, now).reduce((sum, b) => sum + (BUFF_DB[b.id].stats[stat] || 0) * b.stacks, 0);
+};
+
+/**
+ * Counts a fought battle against every battle-limited buff and drops what ran out.
+ */
+export const tickBuffBattles = (list: Buff[] | undefined, now: number = Date.now()): Buff[] => {
+    return getActiveBuffs((list || []).map(b => b.battles === undefined ? b : { ...b, battles: b.battles - 1 }), now);
+};
+
+// "2⚔" for battles left, otherwise "12m" of time left.
+export const formatBuffLeft = (buff: Buff, now: number = Date.now()): string => {
+    if (buff.battles !== undefined) return `${buff.battles}⚔`;
+    return `${Math.max(1, Math.ceil((buff.expiresAt! - now) / 60000))}m`;
+};
+
+export const describeBuff = (id: BuffId): string => {
+    const def = BUFF_DB[id];
+    const stats = Object.entries(def.stats).map(([stat, v]) => `${v! > 0 ? '+' : ''}${v} ${stat.toUpperCase()}`).join(' ');
+    const duration = [def.battles !== undefined && `${def.battles} battle${def.battles > 1 ? 's' : ''}`, def.minutes !== undefined && `${def.minutes} min`].filter(Boolean).join(' or ');
+    return `${def.label}: ${stats} for ${duration}${def.rule === 'STACK' ? ` (stacks x${def.maxStacks})` : ''}.`;
+};
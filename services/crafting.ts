@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Recipe, BossRecord, LOCATIONS_DB } from './gameData';
+import { Bag, GearInstance, addToBag } from './gear';
+import { Rng, createRng } from './rng';
+
+export const isRecipeUnlocked = (recipe: Recipe, bosses?: Record<string, BossRecord>): boolean => {
+    return !recipe.unlockedBy || (bosses?.[recipe.unlockedBy]?.clears || 0) > 0;
+};
+
+export const getUnlockHint = (recipe: Recipe): string => {
+    const loc = recipe.unlockedBy ? LOCATIONS_DB[recipe.unlockedBy] : undefined;
+    return loc?.boss ? `Defeat ${loc.boss.name} in ${loc.name}` : '';
+};
+
+/**
+ * Copies of each item free to use as ingredients. Gear that is worn
+ * (`equipped` holds GearInstance uids) is held back.
+ */
+export const getAvailableCounts = (bag: Bag, equipped: string[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    bag.inventory.forEach(id => { counts[id] = (counts[id] || 0) + 1; });
+    (bag.gear || []).filter(g => !equipped.includes(g.uid)).forEach(g => { counts[g.itemId] = (counts[g.itemId] || 0) + 1; });
+    return counts;
+};
+
+export const canCraft = (recipe: Recipe, available: Record<string, number>, coins: number): boolean => {
+    return coins >= recipe.coins && Object.entries(recipe.inputs).every(([id, n]) => (available[id] || 0) >= n);
+};
+
+export const takeItems = (inventory: string[], items: Record<string, number>): string[] => {
+    const remaining = { ...items };
+    return inventory.filter(id => {
+        if (!remaining[id]) return true;
+        remaining[id]--;
+        return false;
+    });
+};
+
+// Plainest copies go first so enhanced and well-rolled pieces are kept.
+const takeGear = (gear: GearInstance[], items: Record<string, number>, equipped: string[]): GearInstance[] => {
+    const spent = new Set<string>();
+    Object.entries(items).forEach(([id, n]) => {
+        gear.filter(g => g.itemId === id && !equipped.includes(g.uid))
+            .sort((a, b) => a.level - b.level || a.affixes.length - b.affixes.length)
+            .slice(0, n)
+            .forEach(g => spent.add(g.uid));
+    });
+    return gear.filter(g => !spent.has(g.uid));
+};
+
+/**
+ * Removes the ingredients and adds the output. Callers check `canCraft` first.
+ */
+export const craftRecipe = <T extends Bag>(recipe: Recipe, bag: T, equipped: string[], rng: Rng = createRng()): T => {
+    const spent = { ...bag, inventory: takeItems(bag.inventory, recipe.inputs), gear: takeGear(bag.gear || [], recipe.inputs, equipped) };
+    return addToBag(spent, recipe.output, rng);
+};
@@ -5,6 +5,11 @@
  */
 
 import { getGenericVoxel } from './gemini';
+import { StatusId } from './status';
+import { BuffId } from './buffs';
+import { ItemEffect } from './items';
+import { LootKind, getZoneLootTable, rollLootTable } from './loot';
+import { Rng, createRng } from './rng';
 
 export type BodyType = 'BIPED' | 'QUADRUPED' | 'FLOATING' | 'WHEELED' | 'SERPENTINE';
 export type AITactic = 'BALANCED' | 'AGGRESSIVE' | 'DEFENSIVE' | 'SPEEDSTER';
@@ -25,6 +30,34 @@ export const ELEMENT_THEMES: Record<string, { bg: string; text: string; icon: st
     Neutral: { bg: 'bg-gray-300', text: 'text-gray-600', icon: '🥚' }
 };
 
+// --- TYPE CHART ---
+// Attacker element -> defender element -> damage multiplier.
+// Pairs not listed deal neutral (1x) damage. Tune matchups here only.
+export const TYPE_CHART: Record<string, Record<string, number>> = {
+    Fire: { Grass: 2, Metal: 2, Fire: 0.5, Water: 0.5 },
+    Water: { Fire: 2, Toxic: 2, Water: 0.5, Grass: 0.5 },
+    Grass: { Water: 2, Electric: 2, Grass: 0.5, Fire: 0.5, Metal: 0.5, Toxic: 0.5 },
+    Electric: { Water: 2, Metal: 2, Electric: 0.5, Grass: 0.5 },
+    Psychic: { Toxic: 2, Spirit: 2, Psychic: 0.5, Dark: 0.5, Metal: 0.5 },
+    Metal: { Light: 2, Toxic: 2, Metal: 0.5, Fire: 0.5, Electric: 0.5 },
+    Dark: { Psychic: 2, Light: 2, Dark: 0.5, Spirit: 0.5 },
+    Light: { Dark: 2, Spirit: 2, Light: 0.5, Metal: 0.5 },
+    Spirit: { Psychic: 2, Spirit: 2, Dark: 0.5, Neutral: 0.5 },
+    Toxic: { Grass: 2, Light: 2, Toxic: 0.5, Metal: 0.5, Spirit: 0.5 },
+    Neutral: { Metal: 0.5, Spirit: 0.5 }
+};
+
+export const getTypeMultiplier = (attackType: string, defenderElement: string): number => {
+    return TYPE_CHART[attackType]?.[defenderElement] ?? 1;
+};
+
+export const TACTIC_INFO: Record<AITactic, { label: string; icon: string; desc: string }> = {
+    BALANCED: { label: 'Balanced', icon: '⚖️', desc: 'Picks the best value move.' },
+    AGGRESSIVE: { label: 'Aggressive', icon: '💥', desc: 'Goes for the biggest hits.' },
+    DEFENSIVE: { label: 'Defensive', icon: '🛡️', desc: 'Guards and repairs when hurt.' },
+    SPEEDSTER: { label: 'Speedster', icon: '💨', desc: 'Accurate moves, strikes first.' }
+};
+
 export const EVO_THRESHOLDS = {
     PRO: 10,
     ELITE: 25,
@@ -41,6 +74,8 @@ export interface VisualTraits {
     hasEars?: boolean; 
     surfaceFinish?: 'Matte' | 'Glossy' | 'Metallic' | 'Emissive';
     materialType?: 'Standard' | 'Magma' | 'Jelly' | 'Moss'; // Advanced Material Physics
+    specialFeature?: 'ThrusterFlames' | 'GlowingEyes' | 'None';
+    alignment?: EvolutionAlignment; // Tints the outline once a pet evolves on a LUMINOUS/CORRUPTED path
     extractedColors?: {
         primary: string;   
         secondary: string; 
@@ -51,28 +86,31 @@ export interface VisualTraits {
 export interface GameItem {
     id: string; 
     name: string; 
-    type: 'Consumable' | 'Material' | 'Key' | 'Food' | 'Gear';
+    type: 'Consumable' | 'Material' | 'Key' | 'Food' | 'Gear' | 'Capture';
     slot?: EquipmentSlot; // Only for Gear
     statBonus?: { atk?: number, def?: number, spd?: number, hp?: number, int?: number };
-    description: string; 
-    effect?: (pet: any) => any; 
+    description: string; // Flavor text; effect and stat lines are generated by getItemDescription
+    effects?: ItemEffect[]; 
     icon?: string; // Kept as fallback type, but mostly unused
     rarity: 'Common' | 'Rare' | 'Epic' | 'Legendary'; 
     price: number; 
     value?: number; 
+    catchRate?: number; // Only for Capture devices
+    lootTable?: string; // Opening rolls this table from LOOT_TABLES
+    zoneDrop?: number;  // Lowest zone loot tier that drops this outside exclusiveLoot
 }
 
 export const ITEMS_DB: Record<string, GameItem> = {
     // FOOD
-    'pixel_pizza': { id: 'pixel_pizza', name: 'Pixel Pizza', type: 'Food', description: '+40 Hunger.', rarity: 'Common', price: 30, effect: (p)=>({ ...p, hunger: Math.min(100, p.hunger+40) }) },
-    'data_burger': { id: 'data_burger', name: 'Data Burger', type: 'Food', description: '+60 Hunger.', rarity: 'Common', price: 60, effect: (p)=>({ ...p, hunger: Math.min(100, p.hunger+60) }) },
-    'neon_soda': { id: 'neon_soda', name: 'Neon Soda', type: 'Food', description: '+20 Hunger.', rarity: 'Common', price: 40, effect: (p)=>({ ...p, hunger: Math.min(100, p.hunger+20) }) },
-    'glitch_steak': { id: 'glitch_steak', name: 'Glitch Steak', type: 'Food', description: '+90 Hunger. Spicy!', rarity: 'Rare', price: 150, effect: (p)=>({ ...p, hunger: Math.min(100, p.hunger+90) }) },
+    'pixel_pizza': { id: 'pixel_pizza', name: 'Pixel Pizza', type: 'Food', description: '', rarity: 'Common', price: 30, zoneDrop: 1, effects: [{ kind: 'FEED', amount: 40 }] },
+    'data_burger': { id: 'data_burger', name: 'Data Burger', type: 'Food', description: '', rarity: 'Common', price: 60, zoneDrop: 1, effects: [{ kind: 'FEED', amount: 60 }] },
+    'neon_soda': { id: 'neon_soda', name: 'Neon Soda', type: 'Food', description: '', rarity: 'Common', price: 40, zoneDrop: 1, effects: [{ kind: 'FEED', amount: 20 }] },
+    'glitch_steak': { id: 'glitch_steak', name: 'Glitch Steak', type: 'Food', description: 'Spicy!', rarity: 'Rare', price: 150, effects: [{ kind: 'FEED', amount: 90 }] },
 
     // CONSUMABLES
-    'potion_small': { id: 'potion_small', name: 'Small Potion', type: 'Consumable', description: '+20 HP.', rarity: 'Common', price: 50, effect: (p)=>({ ...p, currentHp: Math.min(p.maxHp, p.currentHp+20) }) },
-    'potion_super': { id: 'potion_super', name: 'Super Potion', type: 'Consumable', description: '+60 HP.', rarity: 'Rare', price: 150, effect: (p)=>({ ...p, currentHp: Math.min(p.maxHp, p.currentHp+60) }) },
-    'revive_chip': { id: 'revive_chip', name: 'Revive Chip', type: 'Consumable', description: 'Revive 50% HP.', rarity: 'Epic', price: 500, effect: (p)=>({ ...p, currentHp: p.currentHp<=0 ? Math.floor(p.maxHp*0.5) : p.currentHp }) },
+    'potion_small': { id: 'potion_small', name: 'Small Potion', type: 'Consumable', description: '', rarity: 'Common', price: 50, effects: [{ kind: 'HEAL', amount: 20 }] },
+    'potion_super': { id: 'potion_super', name: 'Super Potion', type: 'Consumable', description: '', rarity: 'Rare', price: 150, zoneDrop: 2, effects: [{ kind: 'HEAL', amount: 60 }, { kind: 'CURE', statuses: ['BURN', 'POISON'] }] },
+    'revive_chip': { id: 'revive_chip', name: 'Revive Chip', type: 'Consumable', description: '', rarity: 'Epic', price: 500, effects: [{ kind: 'REVIVE', ratio: 0.5 }, { kind: 'CURE' }] },
 
     // MATERIALS
     'chip_fire': { id: 'chip_fire', name: 'Magma Chip', type: 'Material', description: 'Warm to the touch.', rarity: 'Rare', price: 300 },
@@ -83,32 +121,66 @@ export const ITEMS_DB: Record<string, GameItem> = {
     'chip_dark': { id: 'chip_dark', name: 'Void Chip', type: 'Material', description: 'Absorbs light.', rarity: 'Epic', price: 600 },
 
     // VITAMINS
-    'vitamin_hp': { id: 'vitamin_hp', name: 'HP Up', type: 'Consumable', description: 'Perm +5 Max HP.', rarity: 'Epic', price: 1000, effect: (p)=>({ ...p, maxHp: p.maxHp+5, currentHp: p.currentHp+5 }) },
-    'vitamin_atk': { id: 'vitamin_atk', name: 'Protein', type: 'Consumable', description: 'Perm +1 ATK.', rarity: 'Epic', price: 1000, effect: (p)=>({ ...p, atk: p.atk+1 }) },
+    'vitamin_hp': { id: 'vitamin_hp', name: 'HP Up', type: 'Consumable', description: '', rarity: 'Epic', price: 1000, effects: [{ kind: 'RAISE_STAT', stat: 'maxHp', amount: 5 }] },
+    'vitamin_atk': { id: 'vitamin_atk', name: 'Protein', type: 'Consumable', description: '', rarity: 'Epic', price: 1000, effects: [{ kind: 'RAISE_STAT', stat: 'atk', amount: 1 }] },
 
     // GEAR - HEAD
-    'helm_visor': { id: 'helm_visor', name: 'Tactical Visor', type: 'Gear', slot: 'HEAD', statBonus: { atk: 5, spd: 2 }, description: '+5 ATK. Scanner active.', rarity: 'Rare', price: 800 },
-    'helm_iron': { id: 'helm_iron', name: 'Iron Helmet', type: 'Gear', slot: 'HEAD', statBonus: { def: 8 }, description: '+8 DEF. Solid protection.', rarity: 'Rare', price: 900 },
+    'helm_visor': { id: 'helm_visor', name: 'Tactical Visor', type: 'Gear', slot: 'HEAD', statBonus: { atk: 5, spd: 2 }, description: 'Scanner active.', rarity: 'Rare', price: 800 },
+    'helm_iron': { id: 'helm_iron', name: 'Iron Helmet', type: 'Gear', slot: 'HEAD', statBonus: { def: 8 }, description: 'Solid protection.', rarity: 'Rare', price: 900, zoneDrop: 3 },
     'helm_cyber': { id: 'helm_cyber', name: 'Cyber Casque', type: 'Gear', slot: 'HEAD', statBonus: { def: 12, int: 5 }, description: 'Advanced neural link.', rarity: 'Epic', price: 1800 },
     'helm_crown': { id: 'helm_crown', name: 'King Crown', type: 'Gear', slot: 'HEAD', statBonus: { atk: 10, def: 5, spd: 5 }, description: 'Fit for a legend.', rarity: 'Legendary', price: 5000 },
 
     // GEAR - BODY
-    'armor_plate': { id: 'armor_plate', name: 'Steel Plate', type: 'Gear', slot: 'BODY', statBonus: { def: 10 }, description: '+10 DEF. Heavy plating.', rarity: 'Rare', price: 1000 },
-    'armor_vest': { id: 'armor_vest', name: 'Speed Vest', type: 'Gear', slot: 'BODY', statBonus: { spd: 8, def: 2 }, description: '+8 SPD. Light & fast.', rarity: 'Rare', price: 1000 },
+    'armor_plate': { id: 'armor_plate', name: 'Steel Plate', type: 'Gear', slot: 'BODY', statBonus: { def: 10 }, description: 'Heavy plating.', rarity: 'Rare', price: 1000 },
+    'armor_vest': { id: 'armor_vest', name: 'Speed Vest', type: 'Gear', slot: 'BODY', statBonus: { spd: 8, def: 2 }, description: 'Light & fast.', rarity: 'Rare', price: 1000 },
     'armor_void': { id: 'armor_void', name: 'Void Shell', type: 'Gear', slot: 'BODY', statBonus: { def: 20, hp: 50 }, description: 'Absorbs impact.', rarity: 'Legendary', price: 6000 },
     
     // GEAR - ACCESSORY (Backpacks, Wings, Rings)
-    'acc_ring': { id: 'acc_ring', name: 'Power Ring', type: 'Gear', slot: 'ACCESSORY', statBonus: { atk: 8 }, description: '+8 ATK. Glowing red.', rarity: 'Rare', price: 1200 },
-    'acc_boots': { id: 'acc_boots', name: 'Turbo Boots', type: 'Gear', slot: 'ACCESSORY', statBonus: { spd: 10 }, description: '+10 SPD. Gotta go fast.', rarity: 'Epic', price: 1500 },
-    'acc_charm': { id: 'acc_charm', name: 'Lucky Charm', type: 'Gear', slot: 'ACCESSORY', statBonus: { hp: 50 }, description: '+50 HP. Feels lucky.', rarity: 'Epic', price: 1500 },
+    'acc_ring': { id: 'acc_ring', name: 'Power Ring', type: 'Gear', slot: 'ACCESSORY', statBonus: { atk: 8 }, description: 'Glowing red.', rarity: 'Rare', price: 1200 },
+    'acc_boots': { id: 'acc_boots', name: 'Turbo Boots', type: 'Gear', slot: 'ACCESSORY', statBonus: { spd: 10 }, description: 'Gotta go fast.', rarity: 'Epic', price: 1500, zoneDrop: 3 },
+    'acc_charm': { id: 'acc_charm', name: 'Lucky Charm', type: 'Gear', slot: 'ACCESSORY', statBonus: { hp: 50 }, description: 'Feels lucky.', rarity: 'Epic', price: 1500 },
     'wings_angel': { id: 'wings_angel', name: 'Holo Wings', type: 'Gear', slot: 'ACCESSORY', statBonus: { spd: 15, atk: 5 }, description: 'Flight module enabled.', rarity: 'Legendary', price: 8000 },
     'pack_jet': { id: 'pack_jet', name: 'Jet Thruster', type: 'Gear', slot: 'ACCESSORY', statBonus: { spd: 12 }, description: 'Boost propulsion.', rarity: 'Epic', price: 4500 },
+
+    // GEAR - FORGED (see RECIPES_DB; otherwise only from Mystery Boxes)
+    'helm_iron_plus': { id: 'helm_iron_plus', name: 'Reinforced Helm', type: 'Gear', slot: 'HEAD', statBonus: { def: 14, hp: 10 }, description: 'Riveted twice over.', rarity: 'Epic', price: 2000 },
+    'armor_vest_plus': { id: 'armor_vest_plus', name: 'Storm Vest', type: 'Gear', slot: 'BODY', statBonus: { spd: 14, def: 4 }, description: 'Crackles when you run.', rarity: 'Epic', price: 2200 },
+    'acc_ring_plus': { id: 'acc_ring_plus', name: 'Blazing Ring', type: 'Gear', slot: 'ACCESSORY', statBonus: { atk: 14 }, description: 'Too hot to hold.', rarity: 'Epic', price: 2500 },
     
     // DRIVERS
-    'driver_crimson': { id: 'driver_crimson', name: 'Crimson Driver', type: 'Consumable', description: 'Temp +5 ATK Boost.', rarity: 'Rare', price: 500, effect: (p)=>({ ...p, atk: p.atk+5 }) },
-    'mystery_box': { id: 'mystery_box', name: 'Mystery Box', type: 'Consumable', description: 'Random Loot.', rarity: 'Epic', price: 500 }
+    'driver_crimson': { id: 'driver_crimson', name: 'Crimson Driver', type: 'Consumable', description: 'Overclocks the core.', rarity: 'Rare', price: 500, effects: [{ kind: 'BUFF', buff: 'OVERCLOCK' }] },
+    'driver_azure': { id: 'driver_azure', name: 'Azure Driver', type: 'Consumable', description: 'Hardens the shell.', rarity: 'Rare', price: 500, effects: [{ kind: 'BUFF', buff: 'HARDENED' }] },
+    'mystery_box': { id: 'mystery_box', name: 'Mystery Box', type: 'Consumable', description: 'Random Loot. Rare or better guaranteed.', rarity: 'Epic', price: 500, lootTable: 'mystery_box' },
+
+    // CAPTURE DEVICES
+    'capsule_basic': { id: 'capsule_basic', name: 'Data Capsule', type: 'Capture', description: 'Catch a weakened wild bot.', rarity: 'Common', price: 200, catchRate: 1.0 },
+    'capsule_great': { id: 'capsule_great', name: 'Quantum Capsule', type: 'Capture', description: 'Better odds on rare bots.', rarity: 'Rare', price: 600, catchRate: 1.6 },
+    'capsule_master': { id: 'capsule_master', name: 'Omega Capsule', type: 'Capture', description: 'Almost never fails.', rarity: 'Legendary', price: 5000, catchRate: 3.0 }
 };
 
+// --- FORGE RECIPES ---
+
+export interface Recipe {
+    id: string;
+    output: string;
+    inputs: Record<string, number>; // Item id -> count; equipped gear never counts
+    coins: number;
+    unlockedBy?: string; // Location whose boss must be cleared once; always open when unset
+}
+
+export const RECIPES_DB: Recipe[] = [
+    { id: 'forge_data_burger', output: 'data_burger', inputs: { pixel_pizza: 2 }, coins: 0 },
+    { id: 'forge_armor_vest_plus', output: 'armor_vest_plus', inputs: { armor_vest: 1, chip_grass: 2, chip_electric: 1 }, coins: 600, unlockedBy: 'loc_woods' },
+    { id: 'forge_potion_super', output: 'potion_super', inputs: { potion_small: 2, chip_water: 1 }, coins: 50, unlockedBy: 'loc_coast' },
+    { id: 'forge_driver_crimson', output: 'driver_crimson', inputs: { chip_fire: 2 }, coins: 150, unlockedBy: 'loc_caldera' },
+    { id: 'forge_acc_ring_plus', output: 'acc_ring_plus', inputs: { acc_ring: 1, chip_fire: 3 }, coins: 600, unlockedBy: 'loc_caldera' },
+    { id: 'forge_capsule_great', output: 'capsule_great', inputs: { capsule_basic: 2, chip_electric: 1 }, coins: 100, unlockedBy: 'loc_peaks' },
+    { id: 'forge_helm_iron_plus', output: 'helm_iron_plus', inputs: { helm_iron: 1, chip_metal: 3 }, coins: 500, unlockedBy: 'loc_foundry' },
+    { id: 'forge_driver_azure', output: 'driver_azure', inputs: { chip_metal: 1, chip_water: 1 }, coins: 150, unlockedBy: 'loc_foundry' },
+    { id: 'forge_chip_dark', output: 'chip_dark', inputs: { chip_fire: 1, chip_water: 1, chip_grass: 1, chip_electric: 1, chip_metal: 1 }, coins: 800, unlockedBy: 'loc_waste' },
+    { id: 'forge_helm_crown', output: 'helm_crown', inputs: { helm_cyber: 1, chip_dark: 3 }, coins: 3000, unlockedBy: 'loc_void' }
+];
+
 export interface LocationNode {
     id: string;
     name: string;
@@ -124,74 +196,165 @@ export interface LocationNode {
     enemyTheme: string[]; 
     exclusiveLoot: string[]; 
     environmentType?: string; 
+    enemyTactics?: AITactic[]; // Pool the wild AI picks its tactic from
+    boss?: ZoneBoss;
+}
+
+// --- ZONE BOSSES ---
+
+/**
+ * A boss powers up once each time its HP drops to `hpRatio` of max.
+ * Multipliers stack on top of whatever earlier phases already applied.
+ */
+export interface BossPhase {
+    hpRatio: number;
+    label: string;
+    atkMult?: number;
+    defMult?: number;
+    spdMult?: number;
+    tactic?: AITactic;
+}
+
+export interface ZoneBoss {
+    name: string;
+    element: string;
+    bodyType: BodyType;
+    visualTraits: VisualTraits;
+    levelBonus: number; // Levels above a regular wild bot of the zone
+    statMult: number;
+    phases: BossPhase[];
+    tactic: AITactic;
+    drop: string; // Guaranteed on a win; always one of the zone's exclusiveLoot
 }
 
+export interface BossRecord {
+    lastFought: number;
+    clears: number;
+}
+
+export const BOSS_COOLDOWN_MS = 4 * 60 * 60 * 1000;
+
 export const LOCATIONS_DB: Record<string, LocationNode> = {
     'loc_starter': {
         id: 'loc_starter', name: 'Green Hills', description: 'Peaceful plains for beginners.',
         levelReq: 1, difficultyMod: 1.0, lootTier: 1, coinMod: 1.0,
         x: 50, y: 90, connections: ['loc_woods', 'loc_coast'], 
-        color: 'bg-green-400', enemyTheme: ['Grass', 'Light'], exclusiveLoot: ['pixel_pizza'], environmentType: 'Grass'
+        color: 'bg-green-400', enemyTheme: ['Grass', 'Light'], exclusiveLoot: ['pixel_pizza', 'capsule_basic'], environmentType: 'Grass', enemyTactics: ['BALANCED'],
+        boss: {
+            name: 'Meadow King', element: 'Grass', bodyType: 'QUADRUPED', levelBonus: 2, statMult: 1.5, tactic: 'BALANCED', drop: 'capsule_basic',
+            visualTraits: { hasHorns: true, hornStyle: 'Dual', hasWings: false, build: 'Chunky', accessory: 'None', hasEars: true, surfaceFinish: 'Matte', materialType: 'Moss', extractedColors: { primary: '#4ade80', secondary: '#166534', accent: '#facc15' } },
+            phases: [{ hpRatio: 0.5, label: 'Overgrowth', atkMult: 1.2 }]
+        }
     },
     'loc_woods': {
         id: 'loc_woods', name: 'Whispering Woods', description: 'Dense forest teeming with life.',
         levelReq: 5, difficultyMod: 1.2, lootTier: 1, coinMod: 1.1,
         x: 30, y: 80, connections: ['loc_starter', 'loc_swamp'], 
-        color: 'bg-emerald-500', enemyTheme: ['Grass', 'Toxic'], exclusiveLoot: ['chip_grass'], environmentType: 'Grass'
+        color: 'bg-emerald-500', enemyTheme: ['Grass', 'Toxic'], exclusiveLoot: ['chip_grass'], environmentType: 'Grass', enemyTactics: ['BALANCED', 'DEFENSIVE'],
+        boss: {
+            name: 'Hollow Warden', element: 'Grass', bodyType: 'BIPED', levelBonus: 3, statMult: 1.6, tactic: 'DEFENSIVE', drop: 'chip_grass',
+            visualTraits: { hasHorns: true, hornStyle: 'Antenna', hasWings: false, build: 'Slender', accessory: 'Scarf', hasEars: false, surfaceFinish: 'Matte', materialType: 'Moss', extractedColors: { primary: '#065f46', secondary: '#a16207', accent: '#bef264' } },
+            phases: [{ hpRatio: 0.5, label: 'Rooted Fury', atkMult: 1.3, tactic: 'AGGRESSIVE' }]
+        }
     },
     'loc_coast': {
         id: 'loc_coast', name: 'Sapphire Coast', description: 'The tides bring treasures.',
         levelReq: 5, difficultyMod: 1.2, lootTier: 1, coinMod: 1.2,
         x: 70, y: 80, connections: ['loc_starter', 'loc_city'], 
-        color: 'bg-blue-400', enemyTheme: ['Water'], exclusiveLoot: ['chip_water'], environmentType: 'Water'
+        color: 'bg-blue-400', enemyTheme: ['Water'], exclusiveLoot: ['chip_water'], environmentType: 'Water', enemyTactics: ['BALANCED', 'SPEEDSTER'],
+        boss: {
+            name: 'Tidecaller', element: 'Water', bodyType: 'SERPENTINE', levelBonus: 3, statMult: 1.6, tactic: 'SPEEDSTER', drop: 'chip_water',
+            visualTraits: { hasHorns: false, hasWings: false, build: 'Slender', accessory: 'None', hasEars: false, surfaceFinish: 'Glossy', materialType: 'Jelly', extractedColors: { primary: '#38bdf8', secondary: '#1e3a8a', accent: '#f0f9ff' } },
+            phases: [{ hpRatio: 0.5, label: 'Riptide', spdMult: 1.4 }]
+        }
     },
     'loc_caldera': {
         id: 'loc_caldera', name: 'Crimson Caldera', description: 'Extreme heat. Fire bots only.',
         levelReq: 15, difficultyMod: 1.8, lootTier: 2, coinMod: 1.5,
         x: 10, y: 60, connections: ['loc_woods', 'loc_foundry'], 
-        color: 'bg-red-500', enemyTheme: ['Fire', 'Metal'], exclusiveLoot: ['chip_fire', 'driver_crimson'], environmentType: 'Fire'
+        color: 'bg-red-500', enemyTheme: ['Fire', 'Metal'], exclusiveLoot: ['chip_fire', 'driver_crimson'], environmentType: 'Fire', enemyTactics: ['AGGRESSIVE'],
+        boss: {
+            name: 'Magma Tyrant', element: 'Fire', bodyType: 'BIPED', levelBonus: 4, statMult: 1.8, tactic: 'AGGRESSIVE', drop: 'driver_crimson',
+            visualTraits: { hasHorns: true, hornStyle: 'Dual', hasWings: false, build: 'Chunky', accessory: 'Helmet', hasEars: false, surfaceFinish: 'Emissive', materialType: 'Magma', extractedColors: { primary: '#b91c1c', secondary: '#1c1917', accent: '#f97316' } },
+            phases: [{ hpRatio: 0.6, label: 'Eruption', atkMult: 1.25 }, { hpRatio: 0.25, label: 'Meltdown', atkMult: 1.3, defMult: 0.7 }]
+        }
     },
     'loc_peaks': {
         id: 'loc_peaks', name: 'Thunder Peaks', description: 'Stormy heights.',
         levelReq: 15, difficultyMod: 1.8, lootTier: 2, coinMod: 1.5,
         x: 90, y: 60, connections: ['loc_coast', 'loc_sanctum'], 
-        color: 'bg-yellow-400', enemyTheme: ['Electric', 'Light'], exclusiveLoot: ['chip_electric'], environmentType: 'Electric'
+        color: 'bg-yellow-400', enemyTheme: ['Electric', 'Light'], exclusiveLoot: ['chip_electric'], environmentType: 'Electric', enemyTactics: ['SPEEDSTER'],
+        boss: {
+            name: 'Stormwing', element: 'Electric', bodyType: 'FLOATING', levelBonus: 4, statMult: 1.8, tactic: 'SPEEDSTER', drop: 'chip_electric',
+            visualTraits: { hasHorns: true, hornStyle: 'Antenna', hasWings: true, wingStyle: 'Feather', build: 'Slender', accessory: 'Goggles', hasEars: false, surfaceFinish: 'Metallic', extractedColors: { primary: '#facc15', secondary: '#1e293b', accent: '#e0f2fe' } },
+            phases: [{ hpRatio: 0.6, label: 'Overcharge', spdMult: 1.3 }, { hpRatio: 0.25, label: 'Thunderhead', atkMult: 1.4 }]
+        }
     },
     'loc_city': {
         id: 'loc_city', name: 'Neon Metropolis', description: 'The hub of cyber-commerce.',
         levelReq: 20, difficultyMod: 2.0, lootTier: 2, coinMod: 2.5, 
         x: 50, y: 50, connections: ['loc_coast', 'loc_foundry', 'loc_sanctum'], 
-        color: 'bg-cyan-500', enemyTheme: ['Electric', 'Metal'], exclusiveLoot: ['neon_soda', 'data_burger', 'helm_cyber'], environmentType: 'Metal'
+        color: 'bg-cyan-500', enemyTheme: ['Electric', 'Metal'], exclusiveLoot: ['neon_soda', 'data_burger', 'helm_cyber', 'capsule_great'], environmentType: 'Metal', enemyTactics: ['SPEEDSTER', 'BALANCED'],
+        boss: {
+            name: 'Neon Overlord', element: 'Electric', bodyType: 'WHEELED', levelBonus: 4, statMult: 1.9, tactic: 'BALANCED', drop: 'helm_cyber',
+            visualTraits: { hasHorns: false, hasWings: false, build: 'Chunky', accessory: 'Goggles', hasEars: true, surfaceFinish: 'Emissive', extractedColors: { primary: '#06b6d4', secondary: '#0f172a', accent: '#f0abfc' } },
+            phases: [{ hpRatio: 0.6, label: 'Firewall', defMult: 1.5, tactic: 'DEFENSIVE' }, { hpRatio: 0.3, label: 'Overclock', atkMult: 1.3, spdMult: 1.3, tactic: 'AGGRESSIVE' }]
+        }
     },
     'loc_foundry': {
         id: 'loc_foundry', name: 'Iron Foundry', description: 'Heavy industrial zone.',
         levelReq: 25, difficultyMod: 2.5, lootTier: 3, coinMod: 1.8,
         x: 30, y: 40, connections: ['loc_city', 'loc_caldera', 'loc_waste'], 
-        color: 'bg-slate-500', enemyTheme: ['Metal', 'Fire'], exclusiveLoot: ['chip_metal', 'helm_iron'], environmentType: 'Metal'
+        color: 'bg-slate-500', enemyTheme: ['Metal', 'Fire'], exclusiveLoot: ['chip_metal', 'helm_iron'], environmentType: 'Metal', enemyTactics: ['DEFENSIVE', 'AGGRESSIVE'],
+        boss: {
+            name: 'Forgemaster', element: 'Metal', bodyType: 'BIPED', levelBonus: 5, statMult: 2.0, tactic: 'DEFENSIVE', drop: 'helm_iron',
+            visualTraits: { hasHorns: false, hasWings: false, build: 'Chunky', accessory: 'Helmet', hasEars: false, surfaceFinish: 'Metallic', extractedColors: { primary: '#64748b', secondary: '#292524', accent: '#fb923c' } },
+            phases: [{ hpRatio: 0.6, label: 'Tempered Plating', defMult: 1.4 }, { hpRatio: 0.3, label: 'Molten Core', atkMult: 1.4, defMult: 0.8, tactic: 'AGGRESSIVE' }]
+        }
     },
     'loc_sanctum': {
         id: 'loc_sanctum', name: 'Mystic Sanctum', description: 'Reality bends here.',
         levelReq: 25, difficultyMod: 2.5, lootTier: 3, coinMod: 1.8,
         x: 70, y: 40, connections: ['loc_city', 'loc_peaks', 'loc_waste'], 
-        color: 'bg-purple-500', enemyTheme: ['Psychic', 'Spirit'], exclusiveLoot: ['potion_super', 'acc_ring'], environmentType: 'Psychic'
+        color: 'bg-purple-500', enemyTheme: ['Psychic', 'Spirit'], exclusiveLoot: ['potion_super', 'acc_ring'], environmentType: 'Psychic', enemyTactics: ['DEFENSIVE', 'SPEEDSTER'],
+        boss: {
+            name: 'The Oracle', element: 'Psychic', bodyType: 'FLOATING', levelBonus: 5, statMult: 2.0, tactic: 'SPEEDSTER', drop: 'acc_ring',
+            visualTraits: { hasHorns: true, hornStyle: 'Uni', hasWings: true, wingStyle: 'Feather', build: 'Round', accessory: 'None', hasEars: false, surfaceFinish: 'Glossy', extractedColors: { primary: '#a855f7', secondary: '#f5f3ff', accent: '#fde047' } },
+            phases: [{ hpRatio: 0.6, label: 'Foresight', spdMult: 1.3 }, { hpRatio: 0.3, label: 'Mind Break', atkMult: 1.4 }]
+        }
     },
     'loc_swamp': {
         id: 'loc_swamp', name: 'Toxic Waste', description: 'Polluted data streams.',
         levelReq: 30, difficultyMod: 3.0, lootTier: 3, coinMod: 2.0,
         x: 10, y: 30, connections: ['loc_woods', 'loc_waste'], 
-        color: 'bg-lime-500', enemyTheme: ['Toxic', 'Dark'], exclusiveLoot: ['revive_chip'], environmentType: 'Toxic'
+        color: 'bg-lime-500', enemyTheme: ['Toxic', 'Dark'], exclusiveLoot: ['revive_chip'], environmentType: 'Toxic', enemyTactics: ['AGGRESSIVE', 'DEFENSIVE'],
+        boss: {
+            name: 'Sludge Hydra', element: 'Toxic', bodyType: 'SERPENTINE', levelBonus: 5, statMult: 2.1, tactic: 'AGGRESSIVE', drop: 'revive_chip',
+            visualTraits: { hasHorns: true, hornStyle: 'Dual', hasWings: false, build: 'Chunky', accessory: 'None', hasEars: false, surfaceFinish: 'Glossy', materialType: 'Jelly', extractedColors: { primary: '#84cc16', secondary: '#3f3f46', accent: '#a855f7' } },
+            phases: [{ hpRatio: 0.66, label: 'Second Head', atkMult: 1.2 }, { hpRatio: 0.33, label: 'Third Head', atkMult: 1.2, spdMult: 1.2 }]
+        }
     },
     'loc_waste': {
         id: 'loc_waste', name: 'Glitch Badlands', description: 'Unstable reality.',
         levelReq: 40, difficultyMod: 3.5, lootTier: 4, coinMod: 2.5,
         x: 50, y: 30, connections: ['loc_city', 'loc_foundry', 'loc_sanctum', 'loc_void'], 
-        color: 'bg-pink-600', enemyTheme: ['Dark', 'Psychic'], exclusiveLoot: ['glitch_steak', 'vitamin_hp', 'acc_charm'], environmentType: 'Psychic'
+        color: 'bg-pink-600', enemyTheme: ['Dark', 'Psychic'], exclusiveLoot: ['glitch_steak', 'vitamin_hp', 'acc_charm'], environmentType: 'Psychic', enemyTactics: ['AGGRESSIVE', 'SPEEDSTER'],
+        boss: {
+            name: 'Null Reaper', element: 'Dark', bodyType: 'FLOATING', levelBonus: 6, statMult: 2.2, tactic: 'AGGRESSIVE', drop: 'acc_charm',
+            visualTraits: { hasHorns: true, hornStyle: 'Dual', hasWings: true, wingStyle: 'Bat', build: 'Slender', accessory: 'Scarf', hasEars: false, surfaceFinish: 'Matte', extractedColors: { primary: '#18181b', secondary: '#db2777', accent: '#f4f4f5' } },
+            phases: [{ hpRatio: 0.6, label: 'Corruption', defMult: 1.3 }, { hpRatio: 0.3, label: 'Reaping', atkMult: 1.5, spdMult: 1.2 }]
+        }
     },
     'loc_void': {
         id: 'loc_void', name: 'The Glitch Layer', description: 'Absolute chaos. Legends only.',
         levelReq: 50, difficultyMod: 5.0, lootTier: 5, coinMod: 5.0,
         x: 50, y: 10, connections: ['loc_waste'], 
-        color: 'bg-violet-900 border-white', enemyTheme: ['Dark', 'Spirit', 'Metal', 'Fire'], exclusiveLoot: ['chip_dark', 'vitamin_atk', 'mystery_box', 'helm_crown', 'armor_void', 'wings_angel'], environmentType: 'Dark'
+        color: 'bg-violet-900 border-white', enemyTheme: ['Dark', 'Spirit', 'Metal', 'Fire'], exclusiveLoot: ['chip_dark', 'vitamin_atk', 'mystery_box', 'helm_crown', 'armor_void', 'wings_angel'], environmentType: 'Dark', enemyTactics: ['AGGRESSIVE', 'DEFENSIVE', 'SPEEDSTER', 'BALANCED'],
+        boss: {
+            name: 'Glitch Sovereign', element: 'Dark', bodyType: 'BIPED', levelBonus: 8, statMult: 2.5, tactic: 'BALANCED', drop: 'wings_angel',
+            visualTraits: { hasHorns: true, hornStyle: 'Uni', hasWings: true, wingStyle: 'Mech', build: 'Slender', accessory: 'Helmet', hasEars: true, surfaceFinish: 'Emissive', extractedColors: { primary: '#4c1d95', secondary: '#000000', accent: '#22d3ee' } },
+            phases: [{ hpRatio: 0.75, label: 'Desync', spdMult: 1.3, tactic: 'SPEEDSTER' }, { hpRatio: 0.5, label: 'Fatal Exception', atkMult: 1.3, tactic: 'AGGRESSIVE' }, { hpRatio: 0.2, label: 'Kernel Panic', atkMult: 1.3, defMult: 0.6 }]
+        }
     }
 };
 
@@ -226,8 +389,63 @@ export const EMOTE_ICONS: Record<string, string> = {
 
 export interface Move {
     name: string; type: string; power: number; accuracy: number; description: string;
+    inflicts?: { status: StatusId; chance: number }; // Rolled on hit
 }
 
+// --- MOVE SETS ---
+// Every pet knows the basic move plus the signature moves of its element.
+const BASIC_MOVE: Move = { name: 'Pixel Tackle', type: 'Neutral', power: 35, accuracy: 100, description: 'A reliable full-body slam.' };
+
+export const MOVES_DB: Record<string, Move[]> = {
+    Fire: [
+        { name: 'Ember Byte', type: 'Fire', power: 45, accuracy: 95, description: 'Nips with a heated jaw.', inflicts: { status: 'BURN', chance: 0.1 } },
+        { name: 'Overclock Blaze', type: 'Fire', power: 85, accuracy: 70, description: 'Vents the core. Hard to aim.', inflicts: { status: 'BURN', chance: 0.3 } }
+    ],
+    Water: [
+        { name: 'Bubble Burst', type: 'Water', power: 45, accuracy: 95, description: 'A volley of pressurized pearls.' },
+        { name: 'Hydro Cannon', type: 'Water', power: 80, accuracy: 75, description: 'Full-tank water jet.', inflicts: { status: 'SLOW', chance: 0.2 } }
+    ],
+    Grass: [
+        { name: 'Vine Lash', type: 'Grass', power: 45, accuracy: 95, description: 'Whips with a mossy cable.' },
+        { name: 'Bass Drop', type: 'Grass', power: 80, accuracy: 75, description: 'A seismic boombox thump.', inflicts: { status: 'STUN', chance: 0.15 } }
+    ],
+    Electric: [
+        { name: 'Static Jab', type: 'Electric', power: 40, accuracy: 100, description: 'A quick zap.', inflicts: { status: 'SLOW', chance: 0.2 } },
+        { name: 'Thunder Surge', type: 'Electric', power: 85, accuracy: 70, description: 'Dumps the whole battery.', inflicts: { status: 'STUN', chance: 0.2 } }
+    ],
+    Psychic: [
+        { name: 'Mind Ping', type: 'Psychic', power: 45, accuracy: 95, description: 'A sharp telepathic packet.' },
+        { name: 'Neural Crash', type: 'Psychic', power: 80, accuracy: 75, description: 'Overloads the target brain.', inflicts: { status: 'STUN', chance: 0.15 } }
+    ],
+    Metal: [
+        { name: 'Rivet Shot', type: 'Metal', power: 45, accuracy: 95, description: 'Fires hot rivets.', inflicts: { status: 'SHIELD_BREAK', chance: 0.15 } },
+        { name: 'Iron Press', type: 'Metal', power: 80, accuracy: 75, description: 'Drops its full weight.' }
+    ],
+    Dark: [
+        { name: 'Shadow Nip', type: 'Dark', power: 45, accuracy: 95, description: 'Bites from the blind spot.' },
+        { name: 'Void Rend', type: 'Dark', power: 85, accuracy: 70, description: 'Tears a hole in the data.', inflicts: { status: 'SHIELD_BREAK', chance: 0.25 } }
+    ],
+    Light: [
+        { name: 'Flash Ray', type: 'Light', power: 45, accuracy: 95, description: 'A blinding beam.' },
+        { name: 'Prism Nova', type: 'Light', power: 80, accuracy: 75, description: 'Refracted burst of light.' }
+    ],
+    Spirit: [
+        { name: 'Haunt Tap', type: 'Spirit', power: 45, accuracy: 95, description: 'A chilling touch.' },
+        { name: 'Phantom Wail', type: 'Spirit', power: 80, accuracy: 75, description: 'A scream from the cache.', inflicts: { status: 'SLOW', chance: 0.2 } }
+    ],
+    Toxic: [
+        { name: 'Sludge Spit', type: 'Toxic', power: 45, accuracy: 95, description: 'Spits corrupted goo.', inflicts: { status: 'POISON', chance: 0.3 } },
+        { name: 'Acid Flood', type: 'Toxic', power: 80, accuracy: 75, description: 'Melts through plating.', inflicts: { status: 'SHIELD_BREAK', chance: 0.3 } }
+    ],
+    Neutral: [
+        { name: 'Glitch Swipe', type: 'Neutral', power: 55, accuracy: 90, description: 'An unpredictable scratch.' }
+    ]
+};
+
+export const getMovesForElement = (element: string): Move[] => {
+    return [BASIC_MOVE, ...(MOVES_DB[element] || MOVES_DB.Neutral)];
+};
+
 export interface MonsterStats {
     id: string; dateCreated: number; name: string; element: string; rarity: string;
     stage: MonsterStage; rank: string; nature: string; personality?: string;
@@ -235,16 +453,21 @@ export interface MonsterStats {
     visualTraits?: VisualTraits; 
     hp: number; maxHp?: number; atk: number; def: number; spd: number; int: number;
     description: string; ability: string; moves: Move[]; tactic?: AITactic; happiness?: number;
+    baseName?: string; // Name before any evolution titles
+    evolutionPath?: EvolutionPath; // Branch taken at the most recent evolution
     equipment?: {
         head?: string;
         body?: string;
         accessory?: string;
     };
+    gearRefs?: { head?: string; body?: string; accessory?: string }; // GearInstance uids behind `equipment`
 }
 
 export interface OfflineReport {
     secondsAway: number; xpGained: number; coinsFound: number;
     hungerLost: number; hpLost: number; events: string[];
+    itemsFound: string[];
+    capped: boolean; // Time away exceeded OFFLINE_CAP_SECONDS
 }
 
 // --- ICONIC STARTERS V2 (AAA DESIGN) ---
@@ -290,9 +513,23 @@ export const STARTER_PACKS = [
     }
 ];
 
+// --- EVOLUTION BRANCHES ---
+
+export type EvolutionDominant = 'BALANCED' | 'ATTACK' | 'DEFENSE' | 'SPEED';
+export type EvolutionAlignment = 'NEUTRAL' | 'LUMINOUS' | 'CORRUPTED';
+
+export interface EvolutionPath {
+    dominant: EvolutionDominant;
+    alignment: EvolutionAlignment;
+}
+
+export interface EvolutionGrowth {
+    hp: number; atk: number; def: number; spd: number; // Multipliers applied on evolving
+}
+
 export const determineEvolutionPath = (stats: {atk: number, def: number, spd: number, happiness: number}) => {
     const { atk, def, spd, happiness } = stats;
-    let dominant = 'BALANCED'; let protocolName = 'Balanced';
+    let dominant: EvolutionDominant = 'BALANCED'; let protocolName = 'Balanced';
     let color = 'text-gray-500'; let borderColor = 'border-gray-500';
     let icon = '😐'; let desc = "Keep grinding.";
     
@@ -300,13 +537,62 @@ export const determineEvolutionPath = (stats: {atk: number, def: number, spd: nu
     else if (def > atk && def > spd) { dominant = 'DEFENSE'; protocolName = 'Guardian'; color = 'text-blue-500'; icon = '🛡️'; desc = "Path: Unbreakable"; }
     else if (spd > atk && spd > def) { dominant = 'SPEED'; protocolName = 'Speedster'; color = 'text-yellow-500'; icon = '👟'; desc = "Path: Mach 10"; }
     
-    let alignment = 'NEUTRAL';
+    let alignment: EvolutionAlignment = 'NEUTRAL';
     if (happiness >= 85) alignment = 'LUMINOUS'; 
     if (happiness <= 25) alignment = 'CORRUPTED';
 
     return { dominant, alignment, protocolName, color, borderColor, icon, desc };
 };
 
+/**
+ * Per-protocol growth, titles (Pro / Elite / Legend) and the body parts
+ * the evolved form grows.
+ */
+export const EVOLUTION_BRANCHES: Record<EvolutionDominant, { growth: EvolutionGrowth; titles: [string, string, string]; visuals: Partial<VisualTraits> }> = {
+    BALANCED: { growth: { hp: 1.5, atk: 1.5, def: 1.5, spd: 1.2 }, titles: ['Mega', 'Giga', 'Omega'], visuals: { hasEars: true } },
+    ATTACK: { growth: { hp: 1.3, atk: 1.8, def: 1.2, spd: 1.3 }, titles: ['Blade', 'Ravager', 'Apex'], visuals: { hasHorns: true, hornStyle: 'Dual' } },
+    DEFENSE: { growth: { hp: 1.8, atk: 1.3, def: 1.8, spd: 1.0 }, titles: ['Bastion', 'Aegis', 'Colossus'], visuals: { build: 'Chunky', accessory: 'Helmet', surfaceFinish: 'Metallic' } },
+    SPEED: { growth: { hp: 1.3, atk: 1.4, def: 1.2, spd: 1.8 }, titles: ['Turbo', 'Sonic', 'Hyper'], visuals: { build: 'Slender', hasWings: true, wingStyle: 'Mech' } }
+};
+
+/**
+ * Alignment stacks on top of the protocol: a happy pet evolves sturdier,
+ * a neglected one hits harder but frays.
+ */
+export const EVOLUTION_ALIGNMENTS: Record<EvolutionAlignment, { growth: EvolutionGrowth; suffix: string; visuals: Partial<VisualTraits> }> = {
+    NEUTRAL: { growth: { hp: 1, atk: 1, def: 1, spd: 1 }, suffix: '', visuals: {} },
+    LUMINOUS: { growth: { hp: 1.15, atk: 1, def: 1.1, spd: 1 }, suffix: ' Prime', visuals: { surfaceFinish: 'Glossy', alignment: 'LUMINOUS' } },
+    CORRUPTED: { growth: { hp: 0.9, atk: 1.2, def: 0.95, spd: 1.05 }, suffix: '.EXE', visuals: { specialFeature: 'GlowingEyes', alignment: 'CORRUPTED' } }
+};
+
+const ALIGNMENT_ACCENTS: Partial<Record<EvolutionAlignment, string>> = { LUMINOUS: '#FDE047', CORRUPTED: '#A855F7' };
+
+export const getEvolutionGrowth = (path: EvolutionPath): EvolutionGrowth => {
+    const a = EVOLUTION_BRANCHES[path.dominant].growth;
+    const b = EVOLUTION_ALIGNMENTS[path.alignment].growth;
+    return { hp: a.hp * b.hp, atk: a.atk * b.atk, def: a.def * b.def, spd: a.spd * b.spd };
+};
+
+export const getEvolvedTitle = (baseName: string, stage: MonsterStage, path: EvolutionPath): string => {
+    const titles = EVOLUTION_BRANCHES[path.dominant].titles;
+    const title = stage === 'Legend' ? titles[2] : stage === 'Elite' ? titles[1] : titles[0];
+    return `${title} ${baseName}${EVOLUTION_ALIGNMENTS[path.alignment].suffix}`;
+};
+
+/**
+ * Layers the branch's body parts and the alignment's finish onto the pet's traits.
+ */
+export const getEvolvedVisuals = (traits: VisualTraits | undefined, path: EvolutionPath): VisualTraits => {
+    const base: VisualTraits = traits || { hasHorns: false, hasWings: false, build: 'Chunky' };
+    const accent = ALIGNMENT_ACCENTS[path.alignment];
+    return {
+        ...base,
+        ...EVOLUTION_BRANCHES[path.dominant].visuals,
+        ...EVOLUTION_ALIGNMENTS[path.alignment].visuals,
+        ...(accent ? { extractedColors: { primary: '#CBD5E1', secondary: '#F1F5F9', ...base.extractedColors, accent } } : {})
+    };
+};
+
 /**
  * GENERATES "GEMINI 2.5 HIGH-FIDELITY" SVG ART
  * This function simulates the output of a generative AI model like Imagen or Gemini 2.5 Flash Image
@@ -408,55 +694,194 @@ export const getProceduralMonsterArt = (name: string, element: string): string =
     return `data:image/svg+xml;base64,${btoa(svg)}`;
 };
 
-export const getRandomEnemy = (locationId: string, playerLevel: number, genVoxelFunc: any): any => {
+const getStageForLevel = (level: number): string => level > 40 ? 'Legend' : level > 25 ? 'Elite' : level > 10 ? 'Pro' : 'Noob';
+
+export const getRandomEnemy = (locationId: string, playerLevel: number, genVoxelFunc: any, rng: Rng = createRng()): any => {
     const loc = LOCATIONS_DB[locationId] || LOCATIONS_DB['loc_starter'];
     const themes = loc.enemyTheme || Object.keys(ELEMENT_THEMES);
-    const element = themes[Math.floor(Math.random() * themes.length)];
-    const bodyType: BodyType = ['BIPED', 'QUADRUPED', 'FLOATING'][Math.floor(Math.random()*3)] as BodyType;
+    const element = rng.pick(themes);
+    const tactics = loc.enemyTactics || ['BALANCED'];
+    const tactic = rng.pick(tactics);
+    const bodyType: BodyType = rng.pick(['BIPED', 'QUADRUPED', 'FLOATING']) as BodyType;
     
     const name = `Wild ${element} Bot`;
     const level = Math.max(1, Math.floor(playerLevel * loc.difficultyMod)); 
-    const enemyStage = level > 40 ? 'Legend' : level > 25 ? 'Elite' : level > 10 ? 'Pro' : 'Noob';
+    const enemyStage = getStageForLevel(level);
     
     const wildTraits: VisualTraits = {
-        hasHorns: Math.random() > 0.5,
-        hornStyle: ['Uni', 'Dual', 'Antenna'][Math.floor(Math.random()*3)] as any,
-        hasWings: element === 'Electric' || element === 'Psychic' || Math.random() > 0.8,
+        hasHorns: rng.next() > 0.5,
+        hornStyle: rng.pick(['Uni', 'Dual', 'Antenna']) as any,
+        hasWings: element === 'Electric' || element === 'Psychic' || rng.next() > 0.8,
         wingStyle: 'Mech',
-        build: Math.random() > 0.5 ? 'Chunky' : 'Slender',
-        accessory: Math.random() > 0.8 ? 'Helmet' : 'None',
-        hasEars: Math.random() > 0.7,
+        build: rng.next() > 0.5 ? 'Chunky' : 'Slender',
+        accessory: rng.next() > 0.8 ? 'Helmet' : 'None',
+        hasEars: rng.next() > 0.7,
         surfaceFinish: 'Matte',
         extractedColors: { primary: '#555555', secondary: '#aaaaaa', accent: '#ff0000' }
     };
 
     const maxHp = Math.floor(60 * loc.difficultyMod + level*10);
 
+    const rarityRoll = rng.next();
+    const rarity = rarityRoll < 0.01 * loc.lootTier ? 'Legendary'
+        : rarityRoll < 0.05 * loc.lootTier ? 'Epic'
+        : rarityRoll < 0.15 + 0.05 * loc.lootTier ? 'Rare' : 'Common';
+
     return {
-        id: `wild_${Date.now()}`, name, element, stage: enemyStage,
+        id: `wild_${Date.now()}`, name, element, stage: enemyStage, bodyType, rarity,
         hp: maxHp,
         currentHp: maxHp,
         maxHp: maxHp,
         atk: Math.floor(10 * loc.difficultyMod + level*2),
         def: Math.floor(10 * loc.difficultyMod + level*2),
+        spd: Math.floor(8 * loc.difficultyMod + level*2),
+        moves: getMovesForElement(element),
+        tactic,
         level,
         visualTraits: wildTraits,
         voxelCode: genVoxelFunc(element, bodyType, enemyStage, wildTraits)
     };
 };
 
-export const getLootDrop = (locationId: string): string | null => {
+// Harder zones can send packs of up to this many bots.
+const getMaxEnemyTeamSize = (difficultyMod: number): number => difficultyMod >= 3.5 ? 3 : difficultyMod >= 2.5 ? 2 : 1;
+
+/**
+ * Builds the zone boss as a battle-ready enemy. Bosses are fully scripted,
+ * so no rolls are needed.
+ */
+export const getBossEnemy = (locationId: string, playerLevel: number, genVoxelFunc: any): any => {
+    const loc = LOCATIONS_DB[locationId];
+    const boss = loc?.boss;
+    if (!boss) return null;
+    const level = Math.max(loc.levelReq, Math.floor(playerLevel * loc.difficultyMod)) + boss.levelBonus;
+    const stage = getStageForLevel(level);
+    const maxHp = Math.floor((60 * loc.difficultyMod + level*10) * boss.statMult);
+    return {
+        id: `boss_${locationId}`, name: boss.name, element: boss.element, stage, bodyType: boss.bodyType, rarity: 'Legendary',
+        hp: maxHp,
+        currentHp: maxHp,
+        maxHp: maxHp,
+        atk: Math.floor((10 * loc.difficultyMod + level*2) * boss.statMult),
+        def: Math.floor((10 * loc.difficultyMod + level*2) * boss.statMult),
+        spd: Math.floor((8 * loc.difficultyMod + level*2) * boss.statMult),
+        moves: getMovesForElement(boss.element),
+        tactic: boss.tactic,
+        phases: boss.phases,
+        level,
+        isBoss: true,
+        visualTraits: boss.visualTraits,
+        voxelCode: genVoxelFunc(boss.element, boss.bodyType, stage, boss.visualTraits, boss.name)
+    };
+};
+
+export const getBossCooldownLeft = (record: BossRecord | undefined, now: number = Date.now()): number => {
+    if (!record) return 0;
+    return Math.max(0, record.lastFought + BOSS_COOLDOWN_MS - now);
+};
+
+export const getEnemyTeam = (locationId: string, playerLevel: number, genVoxelFunc: any, rng: Rng = createRng()): any[] => {
     const loc = LOCATIONS_DB[locationId] || LOCATIONS_DB['loc_starter'];
-    const rand = Math.random();
-    if (loc.exclusiveLoot && loc.exclusiveLoot.length > 0 && rand > 0.85) {
-        return loc.exclusiveLoot[Math.floor(Math.random() * loc.exclusiveLoot.length)];
+    const size = rng.int(getMaxEnemyTeamSize(loc.difficultyMod)) + 1;
+    return Array.from({ length: size }, (_, i) => ({ ...getRandomEnemy(locationId, playerLevel, genVoxelFunc, rng), id: `wild_${Date.now()}_${i}` }));
+};
+
+// --- CAPTURE ---
+const CAPTURE_RARITY_MOD: Record<string, number> = { Common: 0.6, Rare: 0.4, Epic: 0.25, Legendary: 0.12 };
+
+const CAPTURE_NAME_PARTS: Record<string, string[]> = {
+    Fire: ['Cinder', 'Blaze', 'Scorch'], Water: ['Tide', 'Drip', 'Ripple'], Grass: ['Sprout', 'Fern', 'Thorn'],
+    Electric: ['Volt', 'Spark', 'Amp'], Psychic: ['Psi', 'Echo', 'Mirage'], Metal: ['Bolt', 'Rivet', 'Chrome'],
+    Dark: ['Umbra', 'Null', 'Shade'], Light: ['Lumen', 'Halo', 'Prism'], Spirit: ['Wisp', 'Specter', 'Ghost'],
+    Toxic: ['Sludge', 'Venom', 'Smog'], Neutral: ['Pixel', 'Byte', 'Glitch']
+};
+const CAPTURE_NAME_SUFFIXES = ['-BIT', '-TRON', '-ZOR', '-07', '-X', '-MK2'];
+const CAPTURE_NATURES = ['Feral', 'Wary', 'Brave', 'Sly', 'Jolly', 'Stubborn'];
+
+/**
+ * Odds of a capture device working. Lower remaining HP and more common bots are easier.
+ */
+export const getCaptureChance = (hpRatio: number, rarity: string, catchRate: number): number => {
+    const base = (1 - 0.7 * Math.max(0, Math.min(1, hpRatio))) * (CAPTURE_RARITY_MOD[rarity] ?? CAPTURE_RARITY_MOD.Common);
+    return Math.max(0.05, Math.min(0.95, base * catchRate));
+};
+
+/**
+ * Turns a wild bot into the identity and base stats of a new collection pet.
+ * Stats start from a rarity-scaled baseline and grow per level like a raised pet.
+ */
+export const generateCaptureProfile = (enemy: any, locationId: string, rng: Rng = createRng()) => {
+    const loc = LOCATIONS_DB[locationId] || LOCATIONS_DB['loc_starter'];
+    const parts = CAPTURE_NAME_PARTS[enemy.element] || CAPTURE_NAME_PARTS.Neutral;
+    const name = `${rng.pick(parts)}${rng.pick(CAPTURE_NAME_SUFFIXES)}`.toUpperCase();
+    const nature = rng.pick(CAPTURE_NATURES);
+    const rarityBonus = { Common: 1.0, Rare: 1.15, Epic: 1.3, Legendary: 1.5 }[enemy.rarity as string] ?? 1.0;
+    const roll = (min: number, max: number) => Math.floor((min + rng.next() * (max - min)) * rarityBonus);
+    const growth = Math.max(0, enemy.level - 1);
+    const hp = roll(80, 130) + growth * 20;
+    return {
+        name, nature,
+        description: `A ${nature.toLowerCase()} ${enemy.element} bot caught in ${loc.name}. Still a little glitchy around strangers.`,
+        stats: { hp, atk: roll(15, 30) + growth * 5, def: roll(15, 30) + growth * 5, spd: roll(15, 30) + growth * 5 }
+    };
+};
+
+/**
+ * One roll on the zone's loot table; STASH is the richer table treasure events use.
+ */
+export const getLootDrop = (locationId: string, rng: Rng = createRng(), kind: LootKind = 'DROP'): string | null => {
+    return rollLootTable(getZoneLootTable(locationId, kind), rng);
+};
+
+// --- OFFLINE PROGRESS ---
+
+export const OFFLINE_MIN_SECONDS = 5 * 60;    // Shorter absences aren't worth a report
+export const OFFLINE_CAP_SECONDS = 8 * 60 * 60;
+const OFFLINE_TICK_SECONDS = 10 * 60;          // One simulated outing per tick
+const OFFLINE_HUNGER_PER_HOUR = 6;
+const OFFLINE_MAX_ITEMS = 5;
+
+/**
+ * Replays the missed time as a series of coarse outings at the pet's current
+ * location. Returns null when the player wasn't gone long enough.
+ */
+export const simulateOffline = (secondsAway: number, locationId: string, petLevel: number, rng: Rng = createRng()): OfflineReport | null => {
+    if (secondsAway < OFFLINE_MIN_SECONDS) return null;
+    const loc = LOCATIONS_DB[locationId] || LOCATIONS_DB['loc_starter'];
+    const simulated = Math.min(secondsAway, OFFLINE_CAP_SECONDS);
+    const ticks = Math.floor(simulated / OFFLINE_TICK_SECONDS);
+    let xpGained = 0, coinsFound = 0, hpLost = 0, wins = 0, losses = 0;
+    const itemsFound: string[] = [];
+
+    for (let t = 0; t < ticks; t++) {
+        // Tougher zones pay more but go wrong more often.
+        if (rng.chance(0.75 / loc.difficultyMod + 0.1)) {
+            wins++;
+            xpGained += Math.floor(petLevel * 5 * loc.difficultyMod);
+            coinsFound += Math.floor((5 + rng.int(10)) * loc.coinMod);
+        } else {
+            losses++;
+            hpLost += Math.floor(2 * loc.difficultyMod);
+        }
+        if (itemsFound.length < OFFLINE_MAX_ITEMS && rng.chance(0.15)) {
+            const item = getLootDrop(locationId, rng);
+            if (item) itemsFound.push(item);
+        }
     }
-    if (loc.lootTier >= 3 && rand > 0.9) return 'acc_boots'; 
-    if (loc.lootTier >= 3 && rand > 0.95) return 'helm_iron';
-    if (loc.lootTier >= 2 && rand > 0.8) return 'potion_super';
-    if (rand > 0.6) return 'neon_soda';
-    if (rand > 0.4) return 'data_burger';
-    return 'pixel_pizza';
+
+    const events: string[] = [];
+    if (wins) events.push(`Won ${wins} skirmish${wins > 1 ? 'es' : ''} in ${loc.name}.`);
+    if (losses) events.push(`Retreated from ${losses} fight${losses > 1 ? 's' : ''}.`);
+    const counts = itemsFound.reduce<Record<string, number>>((acc, id) => ({ ...acc, [id]: (acc[id] || 0) + 1 }), {});
+    Object.entries(counts).forEach(([id, n]) => events.push(`Found ${n > 1 ? `${n}x ` : ''}${ITEMS_DB[id]?.name || id}.`));
+    if (events.length === 0) events.push('Took a long nap.');
+
+    return {
+        secondsAway, xpGained, coinsFound, itemsFound, events,
+        hungerLost: Math.min(100, Math.floor(simulated / 3600 * OFFLINE_HUNGER_PER_HOUR)),
+        hpLost,
+        capped: secondsAway > OFFLINE_CAP_SECONDS
+    };
 };
 
 export const getRandomEventText = (locationId: string): string => {
@@ -491,20 +916,24 @@ export interface SpecialEvent {
     effectValue: number; 
     logs: string[];
     resultText: string;
+    statuses?: StatusId[]; // Applied to the pet when the event resolves
+    buffs?: BuffId[]; // Timed modifiers applied alongside the statuses
+    seed?: number; // RNG seed that produced this event
 }
 
-export const getRandomSpecialEvent = (locationId: string): SpecialEvent => {
+export const getRandomSpecialEvent = (locationId: string, rng: Rng = createRng()): SpecialEvent => {
     const loc = LOCATIONS_DB[locationId];
-    const roll = Math.random();
+    const roll = rng.next();
 
     if (loc.difficultyMod > 1.5 && roll < 0.15) {
         const hazards = [
-            { title: "MAGMA SURGE", desc: "A lava geyser erupted!", logs: ["Ground is shaking...", "Heat rising fast!", "Took burn damage."], res: "ESCAPED" },
-            { title: "GLITCH TRAP", desc: "Stepped on a corrupted tile.", logs: ["Data corruption detected.", "Movement slowed.", "HP drained."], res: "RECOVERED" },
-            { title: "ACID RAIN", desc: "Toxic downpour.", logs: ["Sky turning green...", "Armor corroding.", "Shields down."], res: "SURVIVED" }
+            { title: "MAGMA SURGE", desc: "A lava geyser erupted!", logs: ["Ground is shaking...", "Heat rising fast!", "Took burn damage."], res: "ESCAPED", statuses: ['BURN'] as StatusId[] },
+            { title: "GLITCH TRAP", desc: "Stepped on a corrupted tile.", logs: ["Data corruption detected.", "Movement slowed.", "HP drained."], res: "RECOVERED", statuses: ['SLOW'] as StatusId[] },
+            { title: "ACID RAIN", desc: "Toxic downpour.", logs: ["Sky turning green...", "Armor corroding.", "Shields down."], res: "SURVIVED", statuses: ['POISON', 'SHIELD_BREAK'] as StatusId[] },
+            { title: "STATIC STORM", desc: "Charged fog rolls in.", logs: ["Hair standing on end...", "Servos seizing up.", "Systems sluggish."], res: "GROUNDED", statuses: [] as StatusId[], buffs: ['STATIC'] as BuffId[] }
         ];
-        const h = hazards[Math.floor(Math.random() * hazards.length)];
-        return { type: 'HAZARD', title: h.title, description: h.desc, effectValue: 20, logs: h.logs, resultText: h.res };
+        const h: { title: string; desc: string; logs: string[]; res: string; statuses: StatusId[]; buffs?: BuffId[] } = rng.pick(hazards);
+        return { type: 'HAZARD', title: h.title, description: h.desc, effectValue: 20, logs: h.logs, resultText: h.res, statuses: h.statuses, buffs: h.buffs, seed: rng.seed };
     }
 
     if (roll > 0.85) {
@@ -512,9 +941,9 @@ export const getRandomSpecialEvent = (locationId: string): SpecialEvent => {
             { title: "ANCIENT RUIN", desc: "Found old data archives.", logs: ["Deciphering glyphs...", "Downloading history.", "Knowledge gained."], res: "KNOWLEDGE" },
             { title: "MANA SPRING", desc: "A glowing pool of energy.", logs: ["Resting by the pool...", "Energy restoring.", "Feeling stronger."], res: "REFRESHED" }
         ];
-        const d = discoveries[Math.floor(Math.random() * discoveries.length)];
-        return { type: 'DISCOVERY', title: d.title, description: d.desc, effectValue: 50, logs: d.logs, resultText: d.res };
+        const d = rng.pick(discoveries);
+        return { type: 'DISCOVERY', title: d.title, description: d.desc, effectValue: 50, logs: d.logs, resultText: d.res, seed: rng.seed };
     }
 
-    return { type: 'DISCOVERY', title: "QUIET MOMENT", description: "Nothing happened.", effectValue: 0, logs: ["Looking around...", "All quiet."], resultText: "PEACEFUL" };
+    return { type: 'DISCOVERY', title: "QUIET MOMENT", description: "Nothing happened.", effectValue: 0, logs: ["Looking around...", "All quiet."], resultText: "PEACEFUL", seed: rng.seed };
 };
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EquipmentSlot, ITEMS_DB, MonsterStats } from './gameData';
+import { Rarity } from './loot';
+import { Rng, createRng } from './rng';
+
+export type GearStat = 'atk' | 'def' | 'spd' | 'hp' | 'int';
+type AffixStat = 'atk' | 'def' | 'spd' | 'hp';
+
+export interface Affix {
+    stat: AffixStat;
+    value: number;
+}
+
+/**
+ * One owned copy of a Gear item. Copies of the same item differ by
+ * enhancement level and the affixes rolled when they were found.
+ */
+export interface GearInstance {
+    uid: string;
+    itemId: string;
+    level: number; // Enhancement, 0..MAX_ENHANCE
+    affixes: Affix[];
+}
+
+// --- AFFIXES ---
+
+const AFFIX_COUNT: Record<Rarity, number> = { Common: 0, Rare: 1, Epic: 2, Legendary: 3 };
+const AFFIX_SCALE: Record<Rarity, number> = { Common: 1, Rare: 1, Epic: 1.5, Legendary: 2 };
+const AFFIX_RANGES: Record<AffixStat, [number, number]> = { atk: [1, 4], def: [1, 4], spd: [1, 4], hp: [5, 20] };
+
+// Each affix rolls a different stat.
+export const rollAffixes = (rarity: Rarity, rng: Rng = createRng()): Affix[] => {
+    const pool = Object.keys(AFFIX_RANGES) as AffixStat[];
+    const affixes: Affix[] = [];
+    for (let i = 0; i < AFFIX_COUNT[rarity] && pool.length; i++) {
+        const stat = pool.splice(rng.int(pool.length), 1)[0];
+        const [min, max] = AFFIX_RANGES[stat];
+        affixes.push({ stat, value: Math.round((min + rng.int(max - min + 1)) * AFFIX_SCALE[rarity]) });
+    }
+    return affixes;
+};
+
+/**
+ * Vets an enhancement level and affixes from another save: anything a real
+ * roll of this item could not have produced is dropped.
+ */
+export const parseGearRoll = (raw: any, itemId: string): { level: number; affixes: Affix[] } => {
+    const rarity = ITEMS_DB[itemId]?.rarity || 'Common';
+    const level = Number.isInteger(raw?.level) && raw.level >= 0 && raw.level <= MAX_ENHANCE ? raw.level : 0;
+    const affixes: Affix[] = [];
+    (Array.isArray(raw?.affixes) ? raw.affixes : []).forEach((a: any) => {
+        const range = AFFIX_RANGES[a?.stat as AffixStat];
+        if (!range || affixes.length >= AFFIX_COUNT[rarity] || affixes.some(x => x.stat === a.stat)) return;
+        const [min, max] = range.map(v => Math.round(v * AFFIX_SCALE[rarity]));
+        if (Number.isInteger(a.value) && a.value >= min && a.value <= max) affixes.push({ stat: a.stat, value: a.value });
+    });
+    return { level, affixes };
+};
+
+export const newGearUid = (rng: Rng = createRng()): string => `gear_${Date.now().toString(36)}_${rng.int(0x1000000).toString(36)}`;
+
+export const createGearInstance = (itemId: string, rng: Rng = createRng()): GearInstance => ({
+    uid: newGearUid(rng),
+    itemId,
+    level: 0,
+    affixes: rollAffixes(ITEMS_DB[itemId]?.rarity || 'Common', rng)
+});
+
+// --- ENHANCEMENT ---
+
+export const MAX_ENHANCE = 10;
+export const ENHANCE_SAFE_LEVEL = 5; // Failing above this knocks the piece down a level
+const ENHANCE_STEP = 0.1;            // Each level adds 10% of the base bonus (at least +1)
+const ENHANCE_CHANCE = [1, 1, 1, 0.95, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3]; // Indexed by target level
+const SLOT_CHIPS: Record<EquipmentSlot, string> = { HEAD: 'chip_electric', BODY: 'chip_metal', ACCESSORY: 'chip_fire' };
+
+export interface EnhanceCost {
+    chips: Record<string, number>;
+    coins: number;
+    chance: number;
+}
+
+export const getEnhanceCost = (gear: GearInstance): EnhanceCost | null => {
+    if (gear.level >= MAX_ENHANCE) return null;
+    const target = gear.level + 1;
+    const chips: Record<string, number> = { [SLOT_CHIPS[ITEMS_DB[gear.itemId]?.slot || 'BODY']]: Math.ceil(target / 2) };
+    if (target > 7) chips.chip_dark = target - 7;
+    return { chips, coins: target * 150, chance: ENHANCE_CHANCE[target] };
+};
+
+/**
+ * One enhancement attempt. Chips and coins are spent either way.
+ */
+export const enhanceGear = (gear: GearInstance, rng: Rng = createRng()): { gear: GearInstance; success: boolean } => {
+    const cost = getEnhanceCost(gear);
+    if (!cost) return { gear, success: false };
+    if (rng.chance(cost.chance)) return { gear: { ...gear, level: gear.level + 1 }, success: true };
+    return { gear: { ...gear, level: gear.level > ENHANCE_SAFE_LEVEL ? gear.level - 1 : gear.level }, success: false };
+};
+
+// --- BONUSES ---
+
+export const getGearBonus = (gear: GearInstance): Partial<Record<GearStat, number>> => {
+    const bonus: Partial<Record<GearStat, number>> = {};
+    Object.entries(ITEMS_DB[gear.itemId]?.statBonus || {}).forEach(([stat, value]) => {
+        const enhanced = gear.level ? Math.max(gear.level, Math.round(value! * ENHANCE_STEP * gear.level)) : 0;
+        bonus[stat as GearStat] = value! + enhanced;
+    });
+    gear.affixes.forEach(a => { bonus[a.stat] = (bonus[a.stat] || 0) + a.value; });
+    return bonus;
+};
+
+export const formatGearBonus = (bonus: Partial<Record<GearStat, number>>): string => {
+    return Object.entries(bonus).filter(([, v]) => v).map(([stat, v]) => `+${v} ${stat.toUpperCase()}`).join(' ');
+};
+
+export const getGearName = (gear: GearInstance): string => {
+    return `${ITEMS_DB[gear.itemId]?.name || gear.itemId}${gear.level ? ` +${gear.level}` : ''}`;
+};
+
+export const GEAR_SLOTS = ['head', 'body', 'accessory'] as const;
+export type GearSlot = typeof GEAR_SLOTS[number];
+
+/**
+ * The copies a pet is wearing, in slot order. Gear worn without a matching copy
+ * (imported PvP teams, replays) counts as a plain +0 piece.
+ */
+export const getEquippedGear = (pet: Pick<MonsterStats, 'equipment' | 'gearRefs'>, owned: GearInstance[] = []): GearInstance[] => {
+    return GEAR_SLOTS.flatMap(slot => {
+        const itemId = pet.equipment?.[slot];
+        if (!itemId) return [];
+        const copy = owned.find(g => g.uid === pet.gearRefs?.[slot] && g.itemId === itemId);
+        return [copy || { uid: '', itemId, level: 0, affixes: [] }];
+    });
+};
+
+export const getEquipmentBonus = (pet: Pick<MonsterStats, 'equipment' | 'gearRefs'>, owned: GearInstance[] = []): Partial<Record<GearStat, number>> => {
+    const total: Partial<Record<GearStat, number>> = {};
+    getEquippedGear(pet, owned).forEach(gear => {
+        Object.entries(getGearBonus(gear)).forEach(([stat, v]) => { total[stat as GearStat] = (total[stat as GearStat] || 0) + v!; });
+    });
+    return total;
+};
+
+// --- BAG ---
+
+export interface Bag {
+    inventory: string[];
+    gear?: GearInstance[];
+}
+
+/**
+ * Gear becomes a fresh instance with rolled affixes; everything else stays an id in the inventory.
+ */
+export const addToBag = <T extends Bag>(bag: T, itemId: string, rng: Rng = createRng()): T => {
+    if (ITEMS_DB[itemId]?.type === 'Gear') return { ...bag, gear: [...(bag.gear || []), createGearInstance(itemId, rng)] };
+    return { ...bag, inventory: [...bag.inventory, itemId] };
+};
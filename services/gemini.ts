@@ -5,7 +5,7 @@
  */
 
 import { GoogleGenAI } from "@google/genai";
-import { VisualTraits, MonsterStage } from "./gameData";
+import { VisualTraits, MonsterStage, EvolutionPath, getEvolvedTitle, getEvolvedVisuals } from "./gameData";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -100,9 +100,15 @@ export const analyzeObject = async (imageBase64: string): Promise<any> => {
     }
 };
 
+// Bump whenever getGenericVoxel's output changes for the same inputs.
+export const VOXEL_RENDERER_VERSION = 3;
+
 /**
  * Generates the AAA Voxel Engine HTML string using PBR, Advanced Materials (Magma/Jelly/Moss), and composite modeling.
  */
+// Values inlined into the scene's <script>. JSON keeps strings quoted and \u003c stops a "</script>" closing the tag.
+const toScriptLiteral = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
 export const getGenericVoxel = (element: string = 'Neutral', bodyType: string = 'BIPED', stage: string = 'Noob', visualTraits?: VisualTraits, name?: string): string => {
     
     const dna = visualTraits || { 
@@ -118,6 +124,9 @@ export const getGenericVoxel = (element: string = 'Neutral', bodyType: string =
     const aCol = dna.extractedColors?.accent ? parseInt(dna.extractedColors.accent.replace('#', '0x'), 16) : 0x333333;
 
     const scale = stage === 'Legend' ? 2.4 : stage === 'Elite' ? 1.8 : stage === 'Pro' ? 1.4 : 1.0;
+    const outlineCol = dna.alignment === 'LUMINOUS' ? 0xFACC15 : dna.alignment === 'CORRUPTED' ? 0x6B21A8 : 0x000000;
+    const trimCol = dna.alignment === 'LUMINOUS' ? 0xFDE047 : dna.alignment === 'CORRUPTED' ? 0xA855F7 : aCol;
+    const stageTier = stage === 'Legend' ? 3 : stage === 'Elite' ? 2 : stage === 'Pro' ? 1 : 0;
 
     return `<!DOCTYPE html>
 <html>
@@ -278,8 +287,8 @@ const jellyMat = createJellyMat(0xF97316); // Orange Jelly for Pyro
 const blueJellyMat = createJellyMat(0x3B82F6); // Blue Jelly for Fizz
 const mossMat = createMossMat(0x166534);   
 
-const outlineMat = new THREE.MeshBasicMaterial({ color: 0x000000, side: THREE.BackSide });
-const OUTLINE_THICKNESS = 1.02; 
+const outlineMat = new THREE.MeshBasicMaterial({ color: ${outlineCol}, side: THREE.BackSide });
+const OUTLINE_THICKNESS = ${1.02 + stageTier * 0.01}; // Later stages get a bolder silhouette
 
 function addOutline(mesh) {
     const outline = new THREE.Mesh(mesh.geometry, outlineMat); 
@@ -408,9 +417,9 @@ const charGroup = new THREE.Group();
 scene.add(charGroup);
 charGroup.scale.setScalar(${scale});
 
-const bodyType = '${bodyType}';
-const dna = ${JSON.stringify(dna)};
-const charName = "${name || ''}";
+const bodyType = ${toScriptLiteral(bodyType)};
+const dna = ${toScriptLiteral(dna)};
+const charName = ${toScriptLiteral(name || '')};
 
 // Common Geometries
 let bodyGeo, headGeo;
@@ -799,6 +808,53 @@ if (charName === 'PYRO-BIT') {
     buildGeneric();
 }
 
+// --- STAGE UPGRADES ---
+// Layered on top of any build: Pro adds shoulder plates and a glowing trim,
+// Elite a chest plate, extra horns and back fins, Legend a halo and an orbiting aura.
+const stageTier = ${stageTier};
+const trimMat = createLavaMat(${trimCol});
+
+function applyStageUpgrades() {
+    if (stageTier >= 1) {
+        addArmorPlate(torso, 0.5, 0.35, 0, 0.3, 0.15, 0.5, accMat);
+        addArmorPlate(torso, -0.5, 0.35, 0, 0.3, 0.15, 0.5, accMat);
+        const trim = createMesh(new THREE.TorusGeometry(0.52, 0.03, 8, 32), trimMat, torso, 0, -0.15, 0);
+        trim.rotation.x = Math.PI / 2;
+    }
+    if (stageTier >= 2) {
+        addArmorPlate(torso, 0, 0.05, 0.5, 0.45, 0.4, 0.08, accMat);
+        const spikeGeo = new THREE.ConeGeometry(0.07, 0.35, 8);
+        [0.18, -0.18].forEach(x => { createMesh(spikeGeo, trimMat, headSlot, x, -0.05, -0.2).rotation.x = -0.6; });
+        const finGeo = new RoundedBoxGeometry(0.08, 0.5, 0.35, 2, 0.02);
+        [0.25, -0.25].forEach(x => {
+            const fin = createMesh(finGeo, accMat, torso, x, 0.3, -0.5);
+            fin.rotation.z = x > 0 ? -0.4 : 0.4;
+            animatedParts.special.push({ mesh: fin, type: 'flap' });
+        });
+    }
+    if (stageTier >= 3) {
+        const halo = createMesh(new THREE.TorusGeometry(0.35, 0.04, 8, 32), trimMat, headSlot, 0, 0.3, 0);
+        halo.rotation.x = Math.PI / 2;
+        animatedParts.special.push({ mesh: halo, type: 'halo' });
+
+        const auraCount = 48;
+        const auraPos = new Float32Array(auraCount * 3);
+        for (let i = 0; i < auraCount; i++) {
+            const a = Math.random() * Math.PI * 2;
+            const r = 0.8 + Math.random() * 0.4;
+            auraPos[i * 3] = Math.cos(a) * r;
+            auraPos[i * 3 + 1] = -0.4 + Math.random() * 1.8;
+            auraPos[i * 3 + 2] = Math.sin(a) * r;
+        }
+        const auraGeo = new THREE.BufferGeometry();
+        auraGeo.setAttribute('position', new THREE.BufferAttribute(auraPos, 3));
+        const aura = new THREE.Points(auraGeo, new THREE.PointsMaterial({ color: ${trimCol}, size: 0.08, transparent: true, opacity: 0.8 }));
+        charGroup.add(aura);
+        animatedParts.special.push({ mesh: aura, type: 'aura' });
+    }
+}
+applyStageUpgrades();
+
 // --- PROPS ---
 const props = new THREE.Group();
 scene.add(props);
@@ -979,6 +1035,83 @@ window.addEventListener('message', (e) => {
     }
 });
 
+// --- EVOLUTION CUTSCENE ---
+// Driven by EVOLVE messages: CHARGE makes the old form glow, spin up and collapse into light,
+// REVEAL grows the new form out of it with a particle burst. SKIP ends the current phase.
+const EVOLVE_SECS = { CHARGE: 3.0, REVEAL: 2.0 };
+const baseScale = charGroup.scale.x;
+let evolvePhase = null;
+let evolveStart = 0;
+
+const evolveShell = new THREE.Mesh(new THREE.SphereGeometry(1, 24, 24), new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0 }));
+evolveShell.visible = false;
+scene.add(evolveShell);
+const evolveLight = new THREE.PointLight(0xffffff, 0, 12);
+scene.add(evolveLight);
+
+const burstCount = 80;
+const burstDirs = [];
+for (let i = 0; i < burstCount; i++) burstDirs.push(new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.2, Math.random() - 0.5).normalize());
+const burstPos = new Float32Array(burstCount * 3);
+const burstGeo = new THREE.BufferGeometry();
+burstGeo.setAttribute('position', new THREE.BufferAttribute(burstPos, 3));
+const burst = new THREE.Points(burstGeo, new THREE.PointsMaterial({ color: ${trimCol}, size: 0.15, transparent: true, opacity: 0 }));
+scene.add(burst);
+
+function startEvolve(phase) {
+    evolvePhase = phase;
+    evolveStart = clock.elapsedTime;
+    isPaused = true; currentAction = 'IDLE'; nextAction = null; overrideTimer = 0; emoteSprite.visible = false;
+    evolveShell.visible = true;
+}
+
+function finishEvolve() {
+    const phase = evolvePhase;
+    evolvePhase = null;
+    charGroup.scale.setScalar(baseScale);
+    charGroup.rotation.y = 0;
+    evolveShell.visible = false;
+    evolveLight.intensity = 0;
+    burst.material.opacity = 0;
+    window.parent.postMessage({ type: 'EVOLVE_DONE', value: phase }, '*');
+}
+
+function updateEvolve(t) {
+    const p = Math.min(1, (t - evolveStart) / EVOLVE_SECS[evolvePhase]);
+    const center = charGroup.position.clone();
+    center.y += baseScale;
+    evolveShell.position.copy(center); evolveLight.position.copy(center); burst.position.copy(center);
+    if (evolvePhase === 'CHARGE') {
+        charGroup.rotation.y = p * p * p * 30;
+        const collapse = p < 0.8 ? 1 + Math.sin(t * 20) * 0.05 * p : 1 - (p - 0.8) * 4.5;
+        charGroup.scale.setScalar(baseScale * collapse);
+        evolveShell.scale.setScalar(baseScale * (0.5 + p));
+        evolveShell.material.opacity = p * p;
+        evolveLight.intensity = p * 6;
+    } else {
+        const grow = 1 - Math.pow(1 - p, 3);
+        charGroup.rotation.y = (1 - grow) * Math.PI * 4;
+        charGroup.scale.setScalar(baseScale * Math.max(0.05, grow));
+        evolveShell.scale.setScalar(baseScale * (1.5 + p));
+        evolveShell.material.opacity = 1 - p;
+        evolveLight.intensity = (1 - p) * 6;
+        burstDirs.forEach((d, i) => {
+            burstPos[i * 3] = d.x * grow * 4;
+            burstPos[i * 3 + 1] = d.y * grow * 4;
+            burstPos[i * 3 + 2] = d.z * grow * 4;
+        });
+        burstGeo.attributes.position.needsUpdate = true;
+        burst.material.opacity = 1 - p;
+    }
+    if (p >= 1) finishEvolve();
+}
+
+window.addEventListener('message', (e) => {
+    if (e.data.type !== 'EVOLVE') return;
+    if (e.data.value === 'SKIP') { if (evolvePhase) finishEvolve(); }
+    else startEvolve(e.data.value);
+});
+
 function lerp(start, end, t) { return start * (1 - t) + end * t; }
 
 function updateGrounding() {
@@ -1079,6 +1212,12 @@ function animate() {
             p.mesh.scale.setScalar(1.0 + Math.max(0, Math.sin(t * 8)) * 0.2); // Beat sync
         } else if (p.type === 'wave_vine') {
             // No easy way to wave a static TubeGeometry without shader or vertex manipulation here
+        } else if (p.type === 'halo') {
+            p.mesh.rotation.z = t * 1.5;
+            p.mesh.position.y = 0.3 + Math.sin(t * 2) * 0.05;
+        } else if (p.type === 'aura') {
+            p.mesh.rotation.y = t * 0.8;
+            p.mesh.material.opacity = 0.5 + Math.sin(t * 3) * 0.3;
         } else if (p.type === 'flap') {
             const speed = currentAction === 'RUN' ? 15 : 5;
             p.mesh.rotation.z = Math.sin(t * speed) * 0.4;
@@ -1240,6 +1379,8 @@ function animate() {
         }
     }
 
+    if (evolvePhase) updateEvolve(t);
+
     controls.update();
     renderer.render(scene, camera);
 }
@@ -1250,14 +1391,19 @@ window.addEventListener('resize', () => { camera.aspect = window.innerWidth/wind
 </html>`;
 };
 
-export const evolveVoxelScene = async (pet: any) => {
+/**
+ * Evolves along the branch picked by `determineEvolutionPath`. `baseName` strips
+ * titles from earlier evolutions so they don't stack. The scene itself is
+ * rebuilt from the new stage and traits when the pet is next rendered.
+ */
+export const evolveVoxelScene = (pet: any, path: EvolutionPath) => {
     const nextStage = getNextStage(pet.stage);
-    const code = getGenericVoxel(pet.element, pet.bodyType, nextStage, pet.visualTraits, pet.name);
+    const baseName: string = pet.baseName ?? pet.name.replace(/^(Mega|Giga) /, '');
     return {
-        code,
         nextStage,
-        nextName: getEvolvedName(pet.name, nextStage),
-        visual_design: `Evolved form of ${pet.name}`
+        baseName,
+        nextName: getEvolvedTitle(baseName, nextStage, path),
+        visualTraits: getEvolvedVisuals(pet.visualTraits, path)
     };
 };
 
@@ -1266,8 +1412,3 @@ function getNextStage(current: string): MonsterStage {
     if (current === 'Pro') return 'Elite';
     return 'Legend';
 }
-
-function getEvolvedName(name: string, stage: string): string {
-    if (name.includes('Mega')) return name.replace('Mega', 'Giga');
-    return `Mega ${name}`;
-}
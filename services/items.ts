@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameItem } from './gameData';
+import { StatusId, StatusEffect, STATUS_DB, cureStatus } from './status';
+import { Buff, BuffId, applyBuff, describeBuff } from './buffs';
+
+/**
+ * Item effects are plain data so they serialize with the item and can be
+ * described automatically. `applyItemEffects` is the only place they run.
+ */
+export type EffectStat = 'maxHp' | 'atk' | 'def' | 'spd';
+
+export type ItemEffect =
+    | { kind: 'FEED'; amount: number }                          // Restores hunger
+    | { kind: 'HEAL'; amount: number }
+    | { kind: 'REVIVE'; ratio: number }                         // Fainted pets only, to this share of max HP
+    | { kind: 'CURE'; statuses?: StatusId[] }                   // Every ailment when omitted
+    | { kind: 'RAISE_STAT'; stat: EffectStat; amount: number } // Permanent
+    | { kind: 'BUFF'; buff: BuffId };                           // Timed, see BUFF_DB
+
+const STAT_LABELS: Record<EffectStat, string> = { maxHp: 'Max HP', atk: 'ATK', def: 'DEF', spd: 'SPD' };
+
+interface EffectTarget {
+    hunger: number;
+    hp: number; maxHp?: number; currentHp?: number;
+    atk: number; def: number; spd: number;
+    statuses?: StatusEffect[];
+    buffs?: Buff[];
+}
+
+// --- INTERPRETER ---
+
+const applyEffect = <T extends EffectTarget>(pet: T, effect: ItemEffect): T => {
+    const maxHp = pet.maxHp ?? pet.hp;
+    const currentHp = pet.currentHp ?? maxHp;
+    switch (effect.kind) {
+        case 'FEED': return { ...pet, hunger: Math.min(100, pet.hunger + effect.amount) };
+        case 'HEAL': return { ...pet, currentHp: Math.min(maxHp, currentHp + effect.amount) };
+        case 'REVIVE': return currentHp > 0 ? pet : { ...pet, currentHp: Math.floor(maxHp * effect.ratio) };
+        case 'CURE': return { ...pet, statuses: cureStatus(pet.statuses, effect.statuses) };
+        case 'RAISE_STAT':
+            if (effect.stat === 'maxHp') return { ...pet, maxHp: maxHp + effect.amount, currentHp: currentHp + effect.amount };
+            return { ...pet, [effect.stat]: pet[effect.stat] + effect.amount };
+        case 'BUFF': return { ...pet, buffs: applyBuff(pet.buffs, effect.buff) };
+    }
+};
+
+export const applyItemEffects = <T extends EffectTarget>(pet: T, effects: ItemEffect[]): T => effects.reduce(applyEffect, pet);
+
+// --- DESCRIPTIONS ---
+
+export const describeEffect = (effect: ItemEffect): string => {
+    switch (effect.kind) {
+        case 'FEED': return `+${effect.amount} Hunger.`;
+        case 'HEAL': return `+${effect.amount} HP.`;
+        case 'REVIVE': return `Revive at ${Math.round(effect.ratio * 100)}% HP.`;
+        case 'CURE': return effect.statuses ? `Cures ${effect.statuses.map(id => STATUS_DB[id].label).join(' & ')}.` : 'Clears all ailments.';
+        case 'RAISE_STAT': return `Perm +${effect.amount} ${STAT_LABELS[effect.stat]}.`;
+        case 'BUFF': return describeBuff(effect.buff);
+    }
+};
+
+/**
+ * Shop and inventory text: generated effect and gear lines, then the item's flavor text.
+ */
+export const getItemDescription = (item: GameItem): string => {
+    const parts = (item.effects || []).map(describeEffect);
+    const bonus = Object.entries(item.statBonus || {}).map(([stat, value]) => `+${value} ${stat.toUpperCase()}`);
+    if (bonus.length) parts.push(`${bonus.join(' ')}.`);
+    if (item.description) parts.push(item.description);
+    return parts.join(' ');
+};
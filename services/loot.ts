@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameItem, ITEMS_DB, LOCATIONS_DB } from './gameData';
+import { Rng, createRng } from './rng';
+
+export type Rarity = GameItem['rarity'];
+export type LootKind = 'DROP' | 'STASH'; // Battle drops vs. treasure events
+
+export const RARITY_ORDER: Rarity[] = ['Common', 'Rare', 'Epic', 'Legendary'];
+
+export const RARITY_BADGES: Record<Rarity, string> = {
+    Common: 'bg-gray-200', Rare: 'bg-blue-300', Epic: 'bg-purple-300', Legendary: 'bg-yellow-300'
+};
+
+export interface LootEntry {
+    id: string;
+    weight: number;
+}
+
+/**
+ * Rolls a rarity first, then an item inside that rarity's pool.
+ * Rarities with an empty pool are skipped and the rest renormalised.
+ */
+export interface LootTable {
+    id: string;
+    label: string;
+    rarityWeights: Record<Rarity, number>;
+    pools: Record<Rarity, LootEntry[]>;
+}
+
+export interface LootOdds {
+    rarity: Rarity;
+    chance: number;
+    items: { id: string; chance: number }[];
+}
+
+// Common / Rare / Epic / Legendary weights per LocationNode.lootTier
+const TIER_RARITY_WEIGHTS: Record<number, Record<Rarity, number>> = {
+    1: { Common: 85, Rare: 13, Epic: 2, Legendary: 0 },
+    2: { Common: 75, Rare: 20, Epic: 4.5, Legendary: 0.5 },
+    3: { Common: 62, Rare: 27, Epic: 9, Legendary: 2 },
+    4: { Common: 50, Rare: 32, Epic: 14, Legendary: 4 },
+    5: { Common: 38, Rare: 35, Epic: 20, Legendary: 7 }
+};
+const MAX_TIER = 5;
+const STASH_TIER_BONUS = 1;  // Secret stashes roll one tier higher than battle drops
+const EXCLUSIVE_WEIGHT = 3;  // A zone's exclusiveLoot turns up 3x as often as general loot
+
+const MYSTERY_BOX_WEIGHTS: Record<Rarity, number> = { Common: 0, Rare: 60, Epic: 30, Legendary: 10 };
+
+// Only items tagged with `zoneDrop` join a zone's general pool; everything else comes from exclusiveLoot.
+const isZoneLoot = (item: GameItem, tier: number) => item.zoneDrop !== undefined && item.zoneDrop <= tier && !item.lootTable;
+const isBoxLoot = (item: GameItem) => item.type !== 'Key' && !item.lootTable;
+
+const buildPools = (entries: LootEntry[]): Record<Rarity, LootEntry[]> => {
+    const pools: Record<Rarity, LootEntry[]> = { Common: [], Rare: [], Epic: [], Legendary: [] };
+    entries.forEach(entry => {
+        const item = ITEMS_DB[entry.id];
+        if (!item) return;
+        const existing = pools[item.rarity].find(e => e.id === entry.id);
+        if (existing) existing.weight = Math.max(existing.weight, entry.weight);
+        else pools[item.rarity].push({ ...entry });
+    });
+    return pools;
+};
+
+// --- TABLES ---
+// Built on demand: ITEMS_DB is not ready yet while the services import each other.
+
+export const getZoneLootTable = (locationId: string, kind: LootKind = 'DROP'): LootTable => {
+    const loc = LOCATIONS_DB[locationId] || LOCATIONS_DB['loc_starter'];
+    const tier = Math.min(MAX_TIER, Math.max(1, loc.lootTier + (kind === 'STASH' ? STASH_TIER_BONUS : 0)));
+    const general = Object.values(ITEMS_DB).filter(item => isZoneLoot(item, tier)).map(item => ({ id: item.id, weight: 1 }));
+    const exclusive = loc.exclusiveLoot.map(id => ({ id, weight: EXCLUSIVE_WEIGHT }));
+    return {
+        id: `${loc.id}_${kind.toLowerCase()}`,
+        label: `${loc.name} ${kind === 'STASH' ? 'Secret Stash' : 'Battle Drops'}`,
+        rarityWeights: TIER_RARITY_WEIGHTS[tier],
+        pools: buildPools([...general, ...exclusive])
+    };
+};
+
+export const getMysteryBoxTable = (): LootTable => ({
+    id: 'mystery_box',
+    label: 'Mystery Box',
+    rarityWeights: MYSTERY_BOX_WEIGHTS,
+    pools: buildPools(Object.values(ITEMS_DB).filter(isBoxLoot).map(item => ({ id: item.id, weight: 1 })))
+});
+
+/**
+ * Tables an item can open into, referenced by `GameItem.lootTable`.
+ */
+export const LOOT_TABLES: Record<string, (locationId: string) => LootTable> = {
+    mystery_box: () => getMysteryBoxTable()
+};
+
+// --- ODDS & ROLLS ---
+
+const sumWeights = (entries: { weight: number }[]) => entries.reduce((sum, e) => sum + e.weight, 0);
+
+/**
+ * The exact probabilities `rollLootTable` uses, for the published odds sheet.
+ */
+export const getLootOdds = (table: LootTable): LootOdds[] => {
+    const live = RARITY_ORDER.filter(r => table.rarityWeights[r] > 0 && sumWeights(table.pools[r]) > 0);
+    const total = live.reduce((sum, r) => sum + table.rarityWeights[r], 0);
+    return live.map(rarity => {
+        const chance = table.rarityWeights[rarity] / total;
+        const poolTotal = sumWeights(table.pools[rarity]);
+        return {
+            rarity, chance,
+            items: table.pools[rarity].map(e => ({ id: e.id, chance: chance * e.weight / poolTotal })).sort((a, b) => b.chance - a.chance)
+        };
+    });
+};
+
+export const rollLootTable = (table: LootTable, rng: Rng = createRng()): string | null => {
+    const odds = getLootOdds(table);
+    let roll = rng.next();
+    for (const tier of odds) {
+        if (roll >= tier.chance) { roll -= tier.chance; continue; }
+        for (const item of tier.items) {
+            if (roll < item.chance) return item.id;
+            roll -= item.chance;
+        }
+        return tier.items[tier.items.length - 1].id; // Float rounding at the end of a pool
+    }
+    return odds.length ? odds[odds.length - 1].items[0].id : null;
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Pet needs, all on a 0-100 scale. Hunger and happiness are "higher is better",
+ * fatigue is "lower is better".
+ */
+export interface Needs {
+    hunger: number;
+    fatigue: number;
+    happiness?: number;
+}
+
+export type NeedWarningId = 'HUNGRY' | 'STARVING' | 'TIRED' | 'EXHAUSTED' | 'SAD';
+
+interface NeedWarning {
+    label: string;
+    icon: string;
+    color: string;
+    statMult: number; // Applied to ATK/DEF/SPD in battle
+    desc: string;
+}
+
+export const NEED_WARNINGS: Record<NeedWarningId, NeedWarning> = {
+    HUNGRY: { label: 'Hungry', icon: '🍖', color: 'bg-orange-300', statMult: 0.9, desc: 'Stats -10% in battle.' },
+    STARVING: { label: 'Starving', icon: '🍖', color: 'bg-red-500', statMult: 0.75, desc: 'Stats -25%. Too weak to explore.' },
+    TIRED: { label: 'Tired', icon: '💤', color: 'bg-sky-300', statMult: 0.9, desc: 'Stats -10% in battle.' },
+    EXHAUSTED: { label: 'Exhausted', icon: '💤', color: 'bg-indigo-500', statMult: 0.75, desc: 'Stats -25%. Needs rest before exploring.' },
+    SAD: { label: 'Sad', icon: '💧', color: 'bg-blue-300', statMult: 0.9, desc: 'Stats -10%. Poke or feed to cheer up.' }
+};
+
+export const NEEDS_TICK_MS = 2 * 60 * 1000;
+const HUNGER_DRAIN = 1;            // Per tick
+const FATIGUE_RECOVERY = 3;        // Per tick
+const NEGLECT_HAPPINESS_LOSS = 2;  // Per tick while hungry or exhausted
+export const FATIGUE_PER_BATTLE = 8;
+export const FATIGUE_PER_EVENT = 4;
+export const HAPPINESS_PER_POKE = 2;
+export const HAPPINESS_PER_MEAL = 5;
+
+const clamp = (v: number) => Math.max(0, Math.min(100, v));
+
+export const getNeedWarnings = (pet: Needs): NeedWarningId[] => {
+    const warnings: NeedWarningId[] = [];
+    if (pet.hunger <= 0) warnings.push('STARVING');
+    else if (pet.hunger < 25) warnings.push('HUNGRY');
+    if (pet.fatigue >= 95) warnings.push('EXHAUSTED');
+    else if (pet.fatigue > 75) warnings.push('TIRED');
+    if ((pet.happiness ?? 100) < 25) warnings.push('SAD');
+    return warnings;
+};
+
+export const getNeedsStatMult = (pet: Needs): number => {
+    return getNeedWarnings(pet).reduce((mult, id) => mult * NEED_WARNINGS[id].statMult, 1);
+};
+
+/**
+ * Why the pet refuses to go out, or null when it's fine to explore.
+ */
+export const getExploreBlock = (pet: Needs): string | null => {
+    const warnings = getNeedWarnings(pet);
+    if (warnings.includes('STARVING')) return "Too hungry to explore... feed me!";
+    if (warnings.includes('EXHAUSTED')) return "Too tired to explore... resting.";
+    return null;
+};
+
+/**
+ * One passive tick: hunger drains, fatigue recovers,
+ * and a neglected pet slowly loses happiness.
+ */
+export const tickNeeds = <T extends Needs>(pet: T): T => {
+    const neglected = pet.hunger < 25 || pet.fatigue > 75;
+    return {
+        ...pet,
+        hunger: clamp(pet.hunger - HUNGER_DRAIN),
+        fatigue: clamp(pet.fatigue - FATIGUE_RECOVERY),
+        happiness: neglected ? clamp((pet.happiness ?? 100) - NEGLECT_HAPPINESS_LOSS) : pet.happiness
+    };
+};
+
+export const adjustNeeds = <T extends Needs>(pet: T, delta: Partial<Needs>): T => ({
+    ...pet,
+    hunger: clamp(pet.hunger + (delta.hunger || 0)),
+    fatigue: clamp(pet.fatigue + (delta.fatigue || 0)),
+    happiness: clamp((pet.happiness ?? 100) + (delta.happiness || 0))
+});
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Move, AITactic, VisualTraits, BodyType, MonsterStage, MonsterStats, ELEMENT_THEMES, ITEMS_DB, MOVES_DB, TACTIC_INFO, getMovesForElement } from './gameData';
+import { Affix, GearInstance, GearSlot, GEAR_SLOTS, parseGearRoll } from './gear';
+import { STATUS_DB, StatusId } from './status';
+
+export const PVP_CODE_PREFIX = 'PIXUPVP1:';
+export const MAX_PVP_TEAM = 3;
+export const PVP_LOCATION_ID = 'pvp'; // Replay location for head-to-head fights
+
+/**
+ * Raw pet data as it left the other save. Equipment stays as item ids, with
+ * each worn piece's enhancement and affixes carried alongside in `gear`.
+ */
+export interface PvpPet {
+    name: string;
+    element: string;
+    level: number;
+    stage: string;
+    bodyType: string;
+    visualTraits?: VisualTraits;
+    equipment?: { head?: string; body?: string; accessory?: string };
+    gear?: Partial<Record<GearSlot, { level: number; affixes: Affix[] }>>;
+    hp: number;
+    maxHp?: number;
+    atk: number;
+    def: number;
+    spd: number;
+    moves?: Move[];
+    tactic?: AITactic;
+}
+
+export interface PvpTeam {
+    trainer: string;
+    exportedAt: number;
+    pets: PvpPet[];
+}
+
+export interface PvpRecord {
+    wins: number;
+    losses: number;
+}
+
+const toBase64 = (text: string): string => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+const fromBase64 = (b64: string): string => new TextDecoder().decode(Uint8Array.from(atob(b64), c => c.charCodeAt(0)));
+
+export const encodePvpTeam = (team: PvpTeam): string => PVP_CODE_PREFIX + toBase64(JSON.stringify(team));
+
+const isStat = (v: unknown): v is number => typeof v === 'number' && isFinite(v) && v >= 0;
+
+// --- GEAR ---
+
+export const getPvpGear = (pet: Pick<MonsterStats, 'equipment' | 'gearRefs'>, owned: GearInstance[] = []): PvpPet['gear'] => {
+    const gear: PvpPet['gear'] = {};
+    GEAR_SLOTS.forEach(slot => {
+        const copy = owned.find(g => g.uid === pet.gearRefs?.[slot] && g.itemId === pet.equipment?.[slot]);
+        if (copy) gear[slot] = { level: copy.level, affixes: copy.affixes };
+    });
+    return gear;
+};
+
+/**
+ * A rival's worn pieces as gear copies, so `getStat` can resolve them the same way as local gear.
+ */
+export const getRivalGear = (pet: PvpPet): { gearRefs: MonsterStats['gearRefs']; owned: GearInstance[] } => {
+    const gearRefs: MonsterStats['gearRefs'] = {};
+    const owned: GearInstance[] = [];
+    GEAR_SLOTS.forEach(slot => {
+        const itemId = pet.equipment?.[slot];
+        const roll = pet.gear?.[slot];
+        if (!itemId || !roll) return;
+        gearRefs[slot] = `rival_${slot}`;
+        owned.push({ uid: `rival_${slot}`, itemId, ...roll });
+    });
+    return { gearRefs, owned };
+};
+
+// --- SANITIZING ---
+// Rival data ends up inside a generated voxel scene, so only known values get through.
+
+const BODY_TYPES: BodyType[] = ['BIPED', 'QUADRUPED', 'FLOATING', 'WHEELED', 'SERPENTINE'];
+const STAGES: MonsterStage[] = ['Noob', 'Pro', 'Elite', 'Legend'];
+const TRAIT_ENUMS: Record<string, string[]> = {
+    hornStyle: ['Uni', 'Dual', 'Antenna', 'None'],
+    wingStyle: ['Feather', 'Bat', 'Mech', 'None'],
+    accessory: ['Goggles', 'Scarf', 'Helmet', 'Backpack', 'None'],
+    surfaceFinish: ['Matte', 'Glossy', 'Metallic', 'Emissive'],
+    materialType: ['Standard', 'Magma', 'Jelly', 'Moss'],
+    specialFeature: ['ThrusterFlames', 'GlowingEyes', 'None'],
+    alignment: ['NEUTRAL', 'LUMINOUS', 'CORRUPTED']
+};
+const BUILDS: VisualTraits['build'][] = ['Chunky', 'Slender', 'Round'];
+
+const pick = <T extends string>(v: unknown, allowed: readonly T[], fallback: T): T => allowed.includes(v as T) ? v as T : fallback;
+const isColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-fA-F]{6}$/.test(v);
+const cleanText = (v: string, max: number) => v.replace(/["'`\\<>]/g, '').slice(0, max);
+// Own keys only, so names like 'constructor' don't pass as an element or status.
+const isKey = (table: object, key: unknown): key is string => typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+
+// Rebuilt field by field: booleans, known enums and #rrggbb colours only.
+const sanitizeTraits = (raw: any): VisualTraits | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const traits: any = {
+        hasHorns: raw.hasHorns === true,
+        hasWings: raw.hasWings === true,
+        hasEars: raw.hasEars === true,
+        build: pick(raw.build, BUILDS, 'Chunky')
+    };
+    Object.entries(TRAIT_ENUMS).forEach(([key, allowed]) => {
+        if (allowed.includes(raw[key])) traits[key] = raw[key];
+    });
+    const colors = raw.extractedColors;
+    if (colors && isColor(colors.primary) && isColor(colors.secondary) && isColor(colors.accent)) {
+        traits.extractedColors = { primary: colors.primary, secondary: colors.secondary, accent: colors.accent };
+    }
+    return traits;
+};
+
+// Power and accuracy may not leave the range the built-in move sets span.
+const clampToMoves = (v: unknown, key: 'power' | 'accuracy'): number | undefined => {
+    if (!isStat(v)) return undefined;
+    const known = Object.values(MOVES_DB).flat().concat(getMovesForElement('Neutral')).map(m => m[key]);
+    return Math.round(Math.min(Math.max(v, Math.min(...known)), Math.max(...known)));
+};
+
+// Rebuilt field by field like the traits; a rival never knows more moves than a local pet of its element.
+const sanitizeMoves = (raw: unknown, element: string): Move[] => {
+    const fallback = getMovesForElement(element);
+    const moves: Move[] = (Array.isArray(raw) ? raw : []).flatMap((m: any) => {
+        const power = clampToMoves(m?.power, 'power');
+        const accuracy = clampToMoves(m?.accuracy, 'accuracy');
+        const name = typeof m?.name === 'string' ? cleanText(m.name, 24) : '';
+        if (!name || power === undefined || accuracy === undefined) return [];
+        const move: Move = {
+            name, power, accuracy,
+            type: isKey(ELEMENT_THEMES, m.type) ? m.type : 'Neutral',
+            description: typeof m.description === 'string' ? cleanText(m.description, 80) : ''
+        };
+        const { status, chance } = m.inflicts || {};
+        if (isKey(STATUS_DB, status) && isStat(chance) && chance <= 1) move.inflicts = { status: status as StatusId, chance };
+        return [move];
+    }).slice(0, fallback.length);
+    return moves.length ? moves : fallback;
+};
+
+// Drops anything this build doesn't know about instead of rejecting the whole pet.
+const sanitizePet = (raw: any): PvpPet => {
+    if (!raw || typeof raw.name !== 'string' || !isKey(ELEMENT_THEMES, raw.element)) throw new Error('Pet data is missing a name or element.');
+    if (![raw.level, raw.hp, raw.atk, raw.def, raw.spd].every(isStat)) throw new Error(`${raw.name} has invalid stats.`);
+    const equipment: PvpPet['equipment'] = {};
+    GEAR_SLOTS.forEach(slot => {
+        const id = raw.equipment?.[slot];
+        if (typeof id === 'string' && ITEMS_DB[id]?.type === 'Gear') equipment[slot] = id;
+    });
+    const gear: PvpPet['gear'] = {};
+    GEAR_SLOTS.forEach(slot => {
+        if (equipment[slot] && raw.gear?.[slot]) gear[slot] = parseGearRoll(raw.gear[slot], equipment[slot]!);
+    });
+    const moves = sanitizeMoves(raw.moves, raw.element);
+    return {
+        name: cleanText(raw.name, 24) || 'Rival Bot', element: raw.element, level: raw.level,
+        stage: pick(raw.stage, STAGES, 'Noob'),
+        bodyType: pick(raw.bodyType, BODY_TYPES, 'BIPED'),
+        visualTraits: sanitizeTraits(raw.visualTraits), equipment, gear,
+        hp: raw.hp, maxHp: isStat(raw.maxHp) ? raw.maxHp : undefined,
+        atk: raw.atk, def: raw.def, spd: raw.spd,
+        moves, tactic: TACTIC_INFO[raw.tactic as AITactic] ? raw.tactic : undefined
+    };
+};
+
+/**
+ * Accepts either a pasted share code or the contents of an exported pet file.
+ * Throws with a player-facing message when the data can't be used.
+ */
+export const parsePvpTeam = (input: string): PvpTeam => {
+    const text = input.trim();
+    let data: any;
+    try {
+        data = JSON.parse(text.startsWith(PVP_CODE_PREFIX) ? fromBase64(text.slice(PVP_CODE_PREFIX.length)) : text);
+    } catch (e) {
+        throw new Error('Not a valid PvP code or pet file.');
+    }
+    const pets = Array.isArray(data?.pets) ? data.pets : data?.name ? [data] : [];
+    if (pets.length === 0) throw new Error('No pets found in that code.');
+    return {
+        trainer: typeof data.trainer === 'string' ? cleanText(data.trainer, 24) || 'Rival' : 'Rival',
+        exportedAt: isStat(data.exportedAt) ? data.exportedAt : Date.now(),
+        pets: pets.slice(0, MAX_PVP_TEAM).map(sanitizePet)
+    };
+};
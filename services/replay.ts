@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getCachedVoxel } from './voxel';
+import { VisualTraits } from './gameData';
+import { Combatant } from './battle';
+
+export const MAX_REPLAYS = 20;
+export const BATTLE_LOG_INTERVAL = 800; // ms between combat log lines, live and in replays
+
+/**
+ * A combatant as it was when the fight started. Voxel scenes are rebuilt
+ * from these inputs on playback instead of storing the full HTML.
+ */
+export interface ReplayCombatant extends Combatant {
+    level: number;
+    stage: string;
+    bodyType: string;
+    visualTraits?: VisualTraits;
+    equipment?: { head?: string; body?: string; accessory?: string };
+    voxelName?: string;
+}
+
+export interface BattleReplay {
+    id: string;
+    date: number;
+    locationId: string;
+    seed: number;
+    players: ReplayCombatant[];
+    enemies: ReplayCombatant[];
+    logs: string[]; // Every combat action, in order
+    activeAt: [number, number][]; // Team slots on the field for each log line
+    win: boolean;
+}
+
+export const getBattleIntro = (enemies: { name: string }[]): string[] => {
+    const opener = enemies.length > 1 ? `${enemies.length} wild bots ambushed you!` : `A wild ${enemies[0].name} appeared!`;
+    return [opener, "Combat protocols initiated!"];
+};
+
+export const createReplay = (locationId: string, seed: number, players: ReplayCombatant[], enemies: ReplayCombatant[], logs: string[], activeAt: [number, number][], win: boolean): BattleReplay => {
+    return { id: `replay_${Date.now()}`, date: Date.now(), locationId, seed, players, enemies, logs, activeAt, win };
+};
+
+// Newest first, oldest dropped once the cap is hit.
+export const pushReplay = (list: BattleReplay[], replay: BattleReplay): BattleReplay[] => {
+    return [replay, ...list].slice(0, MAX_REPLAYS);
+};
+
+export const getReplayVoxel = (c: ReplayCombatant): string => {
+    return getCachedVoxel(c.element, c.bodyType, c.stage, c.visualTraits, c.voxelName ?? c.name);
+};
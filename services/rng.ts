@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Seedable random stream (mulberry32). Every gameplay roll should draw from one
+ * of these so a recorded seed reproduces the exact same outcome.
+ */
+export interface Rng {
+    seed: number;
+    next: () => number;              // [0, 1)
+    int: (max: number) => number;    // [0, max)
+    pick: <T>(list: T[]) => T;
+    chance: (p: number) => boolean;
+}
+
+export const newSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+export const createRng = (seed: number = newSeed()): Rng => {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    return {
+        seed,
+        next,
+        int: (max) => Math.floor(next() * max),
+        pick: (list) => list[Math.floor(next() * list.length)],
+        chance: (p) => next() < p
+    };
+};
+
+export const formatSeed = (seed: number): string => seed.toString(16).toUpperCase().padStart(8, '0');
@@ -0,0 +1,468 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ITEMS_DB, getMovesForElement } from './gameData';
+import { MAX_REPLAYS } from './replay';
+import { newGearUid } from './gear';
+import { HEAVY_PET_FIELDS, PetAssets, isAssetStoreAvailable, loadAllAssets, saveAssets } from './assetStore';
+
+const SAVE_KEY = 'pixupet_save'; // Pre-slot single save, adopted as the first slot
+export const SAVE_SCHEMA_VERSION = 4;
+const LEGACY_KEY_PREFIX = 'pixupet_save_'; // Old saves were keyed by build name, e.g. pixupet_save_v13.9_VECTOR_CHIP_FIX
+const BACKUP_KEY_PREFIX = 'pixupet_backup_';
+
+export interface SaveData {
+    schemaVersion: number;
+    user: any;
+    inventory: any[];
+    replays: any[];
+}
+
+interface Migration {
+    to: number;
+    label: string;
+    migrate: (data: any) => any;
+}
+
+/**
+ * Ordered upgrade steps. Each one takes a save at `to - 1` and returns it at `to`.
+ * Never edit a shipped step; add a new one and bump SAVE_SCHEMA_VERSION.
+ */
+const MIGRATIONS: Migration[] = [
+    {
+        to: 1,
+        label: 'Fill fields missing from build-keyed saves',
+        migrate: (data) => ({
+            ...data,
+            user: {
+                name: 'Tamer', level: 1, exp: 0, coins: 0, currentLocation: 'loc_starter',
+                joinedAt: Date.now(), inventory: [], currentRank: 'Noob',
+                ...data.user
+            },
+            inventory: (data.inventory || []).map((pet: any) => ({
+                hunger: 100, fatigue: 0, happiness: 100,
+                ...pet,
+                maxHp: pet.maxHp || pet.hp || 100,
+                currentHp: pet.currentHp ?? pet.maxHp ?? pet.hp ?? 100,
+                moves: pet.moves?.length ? pet.moves : getMovesForElement(pet.element)
+            })),
+            replays: data.replays || []
+        })
+    },
+    {
+        to: 2,
+        label: 'Drop single-enemy replays and seed the battle party',
+        migrate: (data) => ({
+            ...data,
+            user: { ...data.user, party: data.user.party || (data.inventory[0] ? [data.inventory[0].id] : []) },
+            replays: data.replays.filter((r: any) => Array.isArray(r.players))
+        })
+    },
+    {
+        to: 3,
+        label: 'Drop frozen voxel scenes in favour of regenerated ones',
+        migrate: (data) => ({
+            ...data,
+            inventory: data.inventory.map(({ voxelCode, ...pet }: any) => ({
+                ...pet,
+                rendererVersion: 0, // Built by a renderer that predates versioning
+                // Evolution renamed pets but kept the scene built from their original name.
+                voxelName: pet.voxelName ?? (pet.stage !== 'Noob' ? pet.name.replace(/^(Mega|Giga) /, '') : pet.name)
+            }))
+        })
+    },
+    {
+        to: 4,
+        label: 'Move gear ids into gear instances and link worn copies',
+        migrate: (data) => {
+            const gear: any[] = [];
+            const newCopy = (itemId: string) => {
+                const copy = { uid: `gear_legacy_${gear.length}`, itemId, level: 0, affixes: [] };
+                gear.push(copy);
+                return copy;
+            };
+            const inventory = data.user.inventory.filter((id: string) => ITEMS_DB[id]?.type !== 'Gear');
+            const unworn = data.user.inventory.filter((id: string) => ITEMS_DB[id]?.type === 'Gear').map(newCopy);
+            // Equipping never took gear out of the bag, so one copy could be worn by several pets; each gets its own.
+            const pets = data.inventory.map((pet: any) => {
+                const gearRefs: Record<string, string> = {};
+                Object.entries(pet.equipment || {}).forEach(([slot, itemId]: [string, any]) => {
+                    if (!itemId) return;
+                    const idx = unworn.findIndex(g => g.itemId === itemId);
+                    gearRefs[slot] = (idx >= 0 ? unworn.splice(idx, 1)[0] : newCopy(itemId)).uid;
+                });
+                return { ...pet, gearRefs };
+            });
+            return { ...data, user: { ...data.user, inventory, gear }, inventory: pets };
+        }
+    }
+];
+
+/**
+ * Runs every step between the save's version and the current one.
+ * Legacy blobs without a version are treated as version 0.
+ */
+export const migrateSave = (raw: any): SaveData => {
+    if (!raw || typeof raw !== 'object' || !raw.user) throw new Error('Save data is unreadable.');
+    const from = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+    if (from > SAVE_SCHEMA_VERSION) throw new Error(`This save was made by a newer version of the game (schema v${from}).`);
+    return MIGRATIONS.filter(m => m.to > from).reduce((data, m) => {
+        try {
+            return { ...m.migrate(data), schemaVersion: m.to };
+        } catch (e: any) {
+            throw new Error(`Save upgrade to v${m.to} failed (${m.label}): ${e?.message || e}`);
+        }
+    }, raw);
+};
+
+const findLegacyKey = (): string | null => {
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(LEGACY_KEY_PREFIX)) return key;
+    }
+    return null;
+};
+
+// --- SLOTS ---
+
+export const MAX_SAVE_SLOTS = 5;
+const SLOT_INDEX_KEY = 'pixupet_slots';
+const SLOT_KEY_PREFIX = 'pixupet_slot_';
+
+export interface SlotSummary {
+    id: string;
+    name: string;
+    level: number;
+    pets: number;
+    joinedAt: number;
+    updatedAt: number;
+}
+
+interface SlotIndex {
+    active: string | null;
+    slots: SlotSummary[];
+}
+
+let activeSlotId: string | null = null;
+
+const slotKey = (id: string) => `${SLOT_KEY_PREFIX}${id}`;
+const newSlotId = () => `slot_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const summarize = (id: string, data: any): SlotSummary => ({
+    id,
+    name: data?.user?.name || 'Tamer',
+    level: data?.user?.level || 1,
+    pets: data?.inventory?.length || 0,
+    joinedAt: data?.user?.joinedAt || Date.now(),
+    updatedAt: Date.now()
+});
+
+// A corrupt index is rebuilt from the slot blobs still in storage rather than failing startup.
+const readIndex = (): SlotIndex | null => {
+    const raw = localStorage.getItem(SLOT_INDEX_KEY);
+    if (!raw) return null;
+    try {
+        const index = JSON.parse(raw);
+        if (Array.isArray(index?.slots)) return index;
+    } catch (e) { /* Rebuilt below */ }
+    localStorage.setItem(`${BACKUP_KEY_PREFIX}${SLOT_INDEX_KEY}_${Date.now()}`, raw);
+    const slots: SlotSummary[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(SLOT_KEY_PREFIX)) continue;
+        let parsed: any = null;
+        try { parsed = JSON.parse(localStorage.getItem(key)!); } catch (e) { /* Summary falls back to defaults */ }
+        slots.push(summarize(key.slice(SLOT_KEY_PREFIX.length), parsed));
+    }
+    const index: SlotIndex = { active: slots[0]?.id ?? null, slots };
+    writeIndex(index);
+    return index;
+};
+
+const writeIndex = (index: SlotIndex) => localStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+
+/**
+ * First run with slots: whatever single save exists (current or build-keyed)
+ * becomes slot one, untouched, so the normal load path upgrades it.
+ */
+const ensureSlotIndex = (): SlotIndex => {
+    const existing = readIndex();
+    if (existing) return existing;
+    const index: SlotIndex = { active: null, slots: [] };
+    const key = localStorage.getItem(SAVE_KEY) ? SAVE_KEY : findLegacyKey();
+    if (key) {
+        const id = newSlotId();
+        const blob = localStorage.getItem(key)!;
+        let parsed: any = null;
+        try { parsed = JSON.parse(blob); } catch (e) { /* Summary falls back to defaults; load reports the error */ }
+        localStorage.setItem(slotKey(id), blob);
+        localStorage.removeItem(key);
+        index.active = id;
+        index.slots.push(summarize(id, parsed));
+    }
+    writeIndex(index);
+    return index;
+};
+
+export const listSlots = (): SlotSummary[] => ensureSlotIndex().slots;
+
+export const getActiveSlotId = (): string | null => activeSlotId;
+
+/**
+ * Points future writes at a brand-new slot. Nothing is deleted; the slot only
+ * appears in the list once the first write lands.
+ */
+export const startNewSlot = (): string => {
+    if (listSlots().length >= MAX_SAVE_SLOTS) throw new Error(`All ${MAX_SAVE_SLOTS} save slots are in use. Delete one first.`);
+    activeSlotId = newSlotId();
+    storedAssets.clear();
+    return activeSlotId;
+};
+
+/**
+ * Loads a slot (the last active one by default), upgrading it first.
+ * The untouched original blob is copied to a backup key before any upgrade.
+ * Returns null for a fresh install; throws with a player-facing message on failure.
+ */
+export const loadSave = (slotId?: string): SaveData | null => {
+    const index = ensureSlotIndex();
+    const id = slotId ?? index.active;
+    if (!id || !localStorage.getItem(slotKey(id))) return null;
+    activeSlotId = id;
+    writeIndex({ ...index, active: id });
+
+    const key = slotKey(id);
+    const blob = localStorage.getItem(key)!;
+    const backup = () => localStorage.setItem(`${BACKUP_KEY_PREFIX}${key}_${Date.now()}`, blob);
+    let raw: any;
+    try {
+        raw = JSON.parse(blob);
+    } catch (e) {
+        backup();
+        throw new Error('Save data is corrupted and could not be read.');
+    }
+    if (raw?.schemaVersion === SAVE_SCHEMA_VERSION) return raw;
+
+    backup();
+    const data = migrateSave(raw);
+    writeSave(data);
+    return data;
+};
+
+export const duplicateSlot = async (id: string): Promise<void> => {
+    const index = ensureSlotIndex();
+    const source = index.slots.find(s => s.id === id);
+    const blob = localStorage.getItem(slotKey(id));
+    if (!source || !blob) return;
+    if (index.slots.length >= MAX_SAVE_SLOTS) throw new Error(`All ${MAX_SAVE_SLOTS} save slots are in use. Delete one first.`);
+    const copyId = newSlotId();
+    if (await isAssetStoreAvailable()) {
+        const stored = await loadAllAssets();
+        const copies: Record<string, PetAssets> = {};
+        Object.entries(stored).forEach(([key, assets]) => {
+            if (key.startsWith(`${id}/`)) copies[`${copyId}/${key.slice(id.length + 1)}`] = assets;
+        });
+        await saveAssets(copies, []);
+    }
+    localStorage.setItem(slotKey(copyId), blob);
+    writeIndex({ ...index, slots: [...index.slots, { ...source, id: copyId, name: `${source.name} (copy)`, updatedAt: Date.now() }] });
+};
+
+export const deleteSlot = async (id: string): Promise<void> => {
+    const index = ensureSlotIndex();
+    localStorage.removeItem(slotKey(id));
+    writeIndex({ active: index.active === id ? null : index.active, slots: index.slots.filter(s => s.id !== id) });
+    if (activeSlotId === id) {
+        activeSlotId = null;
+        storedAssets.clear();
+    }
+    if (await isAssetStoreAvailable()) {
+        const stored = await loadAllAssets();
+        await saveAssets({}, Object.keys(stored).filter(key => key.startsWith(`${id}/`)));
+    }
+};
+
+// --- HEAVY ASSETS ---
+
+let assetsInIndexedDb = false;
+// Mirror of the active slot's IndexedDB records, used to skip unchanged writes.
+const storedAssets = new Map<string, PetAssets>();
+
+// Slots can hold the same pet (duplicates, imports), so records are namespaced per slot.
+const assetKey = (petId: string) => `${activeSlotId}/${petId}`;
+
+const pickAssets = (pet: any): PetAssets => {
+    const assets: PetAssets = {};
+    HEAVY_PET_FIELDS.forEach(f => { if (pet[f]) assets[f] = pet[f]; });
+    return assets;
+};
+
+const sameAssets = (a: PetAssets | undefined, b: PetAssets): boolean => {
+    return !!a && HEAVY_PET_FIELDS.every(f => a[f] === b[f]);
+};
+
+/**
+ * Fills photos and card art back into the active slot's pets. Values still
+ * inline in the save (older saves, or no IndexedDB) win and get moved out on the next write.
+ */
+export const hydrateAssets = async (inventory: any[]): Promise<any[]> => {
+    storedAssets.clear();
+    assetsInIndexedDb = await isAssetStoreAvailable();
+    if (!assetsInIndexedDb) return inventory;
+    try {
+        const stored = await loadAllAssets();
+        return inventory.map(pet => {
+            const key = assetKey(pet.id);
+            // Records written before slots existed are keyed by bare pet id; tracking them here
+            // gets them rewritten under the slot key and the old record deleted.
+            const legacy = stored[key] ? null : stored[pet.id];
+            if (stored[key]) storedAssets.set(key, stored[key]);
+            if (legacy) storedAssets.set(pet.id, legacy);
+            return { ...pet, ...pickAssets(stored[key] || legacy || {}), ...pickAssets(pet) };
+        });
+    } catch (e) {
+        console.error("Asset load failed", e);
+        assetsInIndexedDb = false;
+        return inventory;
+    }
+};
+
+// Only pets whose heavy fields actually changed are written; deleted pets are dropped.
+const persistAssets = (inventory: any[]) => {
+    const changed: Record<string, PetAssets> = {};
+    inventory.forEach(pet => {
+        const assets = pickAssets(pet);
+        if (!sameAssets(storedAssets.get(assetKey(pet.id)), assets)) changed[assetKey(pet.id)] = assets;
+    });
+    const keys = new Set(inventory.map(p => assetKey(p.id)));
+    const removed = [...storedAssets.keys()].filter(key => !keys.has(key));
+    if (Object.keys(changed).length === 0 && removed.length === 0) return;
+
+    Object.entries(changed).forEach(([key, assets]) => storedAssets.set(key, assets));
+    removed.forEach(key => storedAssets.delete(key));
+    saveAssets(changed, removed).catch(e => {
+        // Fall back to inline assets so the next write doesn't drop them.
+        console.error("Asset save failed", e);
+        assetsInIndexedDb = false;
+    });
+};
+
+const INDEX_TOUCH_MS = 60000; // How stale a slot's "last played" time may get before the index is rewritten for it alone
+
+const sameSummary = (a: SlotSummary, b: SlotSummary) => a.name === b.name && a.level === b.level && a.pets === b.pets && a.joinedAt === b.joinedAt;
+
+/**
+ * Writes the active slot and refreshes its summary in the slot list.
+ * Unchanged data leaves both the slot and the index untouched.
+ */
+export const writeSave = (data: Omit<SaveData, 'schemaVersion'>) => {
+    if (!activeSlotId) return;
+    let inventory = data.inventory;
+    if (assetsInIndexedDb) {
+        persistAssets(inventory);
+        inventory = inventory.map(pet => {
+            const light = { ...pet };
+            HEAVY_PET_FIELDS.forEach(f => delete light[f]);
+            return light;
+        });
+    }
+    const key = slotKey(activeSlotId);
+    const blob = JSON.stringify({ ...data, inventory, schemaVersion: SAVE_SCHEMA_VERSION });
+    if (localStorage.getItem(key) === blob) return;
+    localStorage.setItem(key, blob);
+
+    const index = ensureSlotIndex();
+    const summary = summarize(activeSlotId, data);
+    const current = index.slots.find(s => s.id === activeSlotId);
+    if (current && index.active === activeSlotId && sameSummary(current, summary) && summary.updatedAt - current.updatedAt < INDEX_TOUCH_MS) return;
+    writeIndex({
+        active: activeSlotId,
+        slots: current ? index.slots.map(s => s.id === activeSlotId ? summary : s) : [...index.slots, summary]
+    });
+};
+
+// --- PORTABLE SAVE FILES ---
+
+export const SAVE_FILE_FORMAT = 'pixupet-save';
+
+interface SaveFile {
+    format: typeof SAVE_FILE_FORMAT;
+    schemaVersion: number;
+    exportedAt: number;
+    checksum: string;
+    data: { user: any; inventory: any[]; replays: any[] };
+}
+
+// FNV-1a: catches truncated or hand-edited files. Not a security measure.
+const checksum = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `fnv1a:${hash.toString(16).padStart(8, '0')}`;
+};
+
+/**
+ * Serializes a full game, pets' photos included, into a standalone file.
+ */
+export const createSaveFile = (data: Omit<SaveData, 'schemaVersion'>): string => {
+    const payload = { user: data.user, inventory: data.inventory, replays: data.replays };
+    const file: SaveFile = {
+        format: SAVE_FILE_FORMAT,
+        schemaVersion: SAVE_SCHEMA_VERSION,
+        exportedAt: Date.now(),
+        checksum: checksum(JSON.stringify(payload)),
+        data: payload
+    };
+    return JSON.stringify(file);
+};
+
+/**
+ * Validates an exported file and upgrades it to the current schema.
+ * Throws with a player-facing message when the file can't be trusted.
+ */
+export const readSaveFile = (text: string): SaveData => {
+    let file: any;
+    try {
+        file = JSON.parse(text);
+    } catch (e) {
+        throw new Error('That file is not a Pixupet save.');
+    }
+    if (file?.format !== SAVE_FILE_FORMAT || !file.data) throw new Error('That file is not a Pixupet save.');
+    if (checksum(JSON.stringify(file.data)) !== file.checksum) throw new Error('Save file is damaged or was edited (checksum mismatch).');
+    if (!Array.isArray(file.data.inventory)) throw new Error('Save file has no pet list.');
+    return migrateSave({ ...file.data, schemaVersion: file.schemaVersion });
+};
+
+/**
+ * Keeps the current profile and adds any pets and replays it doesn't already have.
+ * Gear worn by an imported pet comes along under a fresh uid, since uids
+ * (legacy ones especially) can repeat between saves.
+ */
+export const mergeSaves = (current: Omit<SaveData, 'schemaVersion'>, incoming: SaveData): Omit<SaveData, 'schemaVersion'> => {
+    const petIds = new Set(current.inventory.map(p => p.id));
+    const replayIds = new Set(current.replays.map(r => r.id));
+    const incomingGear: any[] = incoming.user.gear || [];
+    const adopted: any[] = [];
+    const pets = incoming.inventory.filter(p => !petIds.has(p.id)).map(pet => {
+        const gearRefs: Record<string, string> = {};
+        Object.entries(pet.gearRefs || {}).forEach(([slot, uid]) => {
+            const copy = incomingGear.find(g => g.uid === uid && g.itemId === pet.equipment?.[slot]);
+            if (!copy) return;
+            const moved = { ...copy, uid: newGearUid() };
+            adopted.push(moved);
+            gearRefs[slot] = moved.uid;
+        });
+        return { ...pet, gearRefs };
+    });
+    return {
+        user: adopted.length ? { ...current.user, gear: [...(current.user.gear || []), ...adopted] } : current.user,
+        inventory: [...current.inventory, ...pets],
+        replays: [...current.replays, ...incoming.replays.filter(r => !replayIds.has(r.id))]
+            .sort((a, b) => b.date - a.date)
+            .slice(0, MAX_REPLAYS)
+    };
+};
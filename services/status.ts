@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type StatusId = 'BURN' | 'POISON' | 'SLOW' | 'STUN' | 'SHIELD_BREAK';
+
+export interface StatusEffect {
+    id: StatusId;
+    turns: number;  // Remaining battle turns / exploration events
+    stacks: number;
+}
+
+interface StatusDef {
+    label: string;
+    icon: string;
+    color: string;
+    turns: number;
+    maxStacks: number;
+    // REFRESH resets the timer, STACK also adds a stack, IGNORE keeps the running effect.
+    rule: 'REFRESH' | 'STACK' | 'IGNORE';
+    dotRatio?: number; // Fraction of max HP lost per tick, per stack
+    spdMult?: number;
+    defMult?: number;
+    desc: string;
+}
+
+export const STATUS_DB: Record<StatusId, StatusDef> = {
+    BURN: { label: 'Burn', icon: '🔥', color: 'bg-orange-500', turns: 3, maxStacks: 1, rule: 'REFRESH', dotRatio: 0.06, desc: 'Loses HP every turn.' },
+    POISON: { label: 'Poison', icon: '☠️', color: 'bg-lime-500', turns: 4, maxStacks: 3, rule: 'STACK', dotRatio: 0.04, desc: 'Loses HP every turn. Stacks up to 3x.' },
+    SLOW: { label: 'Slow', icon: '🐌', color: 'bg-sky-400', turns: 3, maxStacks: 1, rule: 'REFRESH', spdMult: 0.5, desc: 'SPD halved.' },
+    STUN: { label: 'Stun', icon: '💫', color: 'bg-yellow-300', turns: 1, maxStacks: 1, rule: 'IGNORE', desc: 'Skips the next turn.' },
+    SHIELD_BREAK: { label: 'Shield Break', icon: '💔', color: 'bg-gray-500', turns: 3, maxStacks: 1, rule: 'REFRESH', defMult: 0.5, desc: 'DEF halved.' }
+};
+
+export const hasStatus = (list: StatusEffect[] | undefined, id: StatusId): boolean => {
+    return !!list?.some(s => s.id === id);
+};
+
+/**
+ * Adds an effect following its stack rule. Never mutates the input list.
+ */
+export const applyStatus = (list: StatusEffect[] | undefined, id: StatusId, turns?: number): StatusEffect[] => {
+    const def = STATUS_DB[id];
+    const current = list || [];
+    const existing = current.find(s => s.id === id);
+    const duration = turns ?? def.turns;
+    if (!existing) return [...current, { id, turns: duration, stacks: 1 }];
+    if (def.rule === 'IGNORE') return current;
+    return current.map(s => s.id !== id ? s : {
+        id,
+        turns: Math.max(s.turns, duration),
+        stacks: def.rule === 'STACK' ? Math.min(def.maxStacks, s.stacks + 1) : s.stacks
+    });
+};
+
+/**
+ * Removes the given effects, or every effect when no ids are passed.
+ */
+export const cureStatus = (list: StatusEffect[] | undefined, ids?: StatusId[]): StatusEffect[] => {
+    if (!ids) return [];
+    return (list || []).filter(s => !ids.includes(s.id));
+};
+
+/**
+ * Runs one tick: damage-over-time is totalled and every timer counts down.
+ */
+export const tickStatuses = (list: StatusEffect[] | undefined, maxHp: number): { statuses: StatusEffect[], damage: number, logs: string[] } => {
+    let damage = 0;
+    const logs: string[] = [];
+    (list || []).forEach(s => {
+        const def = STATUS_DB[s.id];
+        if (def.dotRatio) {
+            const dmg = Math.max(1, Math.floor(maxHp * def.dotRatio * s.stacks));
+            damage += dmg;
+            logs.push(`${def.label} dealt ${dmg} DMG`);
+        }
+    });
+    const statuses = (list || []).map(s => ({ ...s, turns: s.turns - 1 })).filter(s => s.turns > 0);
+    return { statuses, damage, logs };
+};
+
+export const getStatusMods = (list: StatusEffect[] | undefined): { spd: number, def: number } => {
+    return (list || []).reduce((mods, s) => ({
+        spd: mods.spd * (STATUS_DB[s.id].spdMult ?? 1),
+        def: mods.def * (STATUS_DB[s.id].defMult ?? 1)
+    }), { spd: 1, def: 1 });
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getGenericVoxel, VOXEL_RENDERER_VERSION } from './gemini';
+import { VisualTraits } from './gameData';
+
+const MAX_CACHED_SCENES = 32;
+const cache = new Map<string, string>(); // Insertion order doubles as LRU order
+
+/**
+ * The inputs a scene is generated from. `voxelName` pins the name the scene was
+ * first built with, so renamed pets (evolutions) keep name-specific features.
+ */
+export interface VoxelSource {
+    element: string;
+    bodyType: string;
+    stage: string;
+    visualTraits?: VisualTraits;
+    name: string;
+    voxelName?: string;
+}
+
+/**
+ * Memoized `getGenericVoxel`. Identical inputs return the same string, so
+ * viewers don't reload when the parent re-renders.
+ */
+export const getCachedVoxel = (element: string, bodyType: string, stage: string, visualTraits?: VisualTraits, name?: string): string => {
+    const key = JSON.stringify([VOXEL_RENDERER_VERSION, element, bodyType, stage, visualTraits || null, name || '']);
+    const hit = cache.get(key);
+    if (hit !== undefined) {
+        cache.delete(key);
+        cache.set(key, hit);
+        return hit;
+    }
+    const code = getGenericVoxel(element, bodyType, stage, visualTraits, name);
+    cache.set(key, code);
+    if (cache.size > MAX_CACHED_SCENES) cache.delete(cache.keys().next().value!);
+    return code;
+};
+
+export const getPetVoxel = (pet: VoxelSource): string => {
+    return getCachedVoxel(pet.element, pet.bodyType, pet.stage, pet.visualTraits, pet.voxelName ?? pet.name);
+};